@@ -1,10 +1,110 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { computeRowsFromComponents } from "@/components/calculate";
-import { type EquationRow } from "@/lib/calculations";
-import { utils as XLSXUtils, writeFile as writeXLSXFile } from "xlsx";
+import {
+  analyzeSensitivityFromComponents,
+  autoSizeFromComponents,
+  computeNetworkFromComponents,
+  runScenariosFromComponents,
+  simulatePrimingFromComponents,
+  solveFlowsFromComponents,
+  validateTopologyFromComponents,
+  type NetworkResult,
+} from "@/components/calculate";
+import {
+  DEFAULT_BRANCH_ANGLE,
+  pathHeadLoss,
+  type EquationRow,
+  type SystemInfo,
+} from "@/lib/calculations";
+import { compareTeeModels, networkTees } from "@/lib/teeParity";
+import { type FlowSolution } from "@/lib/flowSolver";
+import { type AutoSizeResult } from "@/lib/pipeSizer";
+import { type Scenario, type ScenarioResult } from "@/lib/scenarios";
+import { DEFAULT_PRIMING_LIMIT, type PrimingResult } from "@/lib/priming";
+import {
+  DEFAULT_IMBALANCE_TOLERANCE,
+  type ImbalanceTolerance,
+} from "@/lib/imbalance";
+import {
+  DEFAULT_SENSITIVITY_RANGES,
+  SENSITIVITY_PARAMETER_LABELS,
+  type SensitivityEntry,
+  type SensitivityParameter,
+  type SensitivityRanges,
+  type SensitivityResult,
+} from "@/lib/sensitivity";
+import {
+  DISCHARGE_TRANSITION_LABELS,
+  type DischargeConfig,
+  type DischargeTransition,
+} from "@/lib/discharge";
+import { DEFAULT_MATERIAL, PIPE_MATERIALS, snapToCatalog } from "@/lib/materials";
+import { OUTLET_PRODUCTS, findOutletProduct } from "@/lib/outletProducts";
+import {
+  DEFAULT_FITTINGS,
+  FITTING_LIBRARY,
+  fittingKindOf,
+  type FittingKind,
+  type FittingSelection,
+} from "@/lib/fittings";
+import { DEFAULT_WATER_TEMPERATURE, mbarPerMetre, waterProperties } from "@/lib/fluid";
+import {
+  DEFAULT_FRICTION_MODEL,
+  FRICTION_MODEL_LABELS,
+  LAMINAR_RE,
+  TURBULENT_RE,
+  type FrictionModel,
+} from "@/lib/friction";
+import {
+  DEFAULT_MIN_PRESSURE_MBAR,
+  checkPressureLimit,
+  resolvePressureLimit,
+  type PressureLimit,
+} from "@/lib/pressureLimits";
+import {
+  DEFAULT_DESIGN_STORM,
+  DEFAULT_IDF_TABLE,
+  DEFAULT_RUNOFF_COEFFICIENT,
+  MM_PER_HOUR_PER_LSM2,
+  applyDesignRainfall,
+  hasDerivedCapacity,
+  idfCurve,
+  parseIdfTable,
+  rampHyetograph,
+  resolveDesignIntensity,
+  type DesignStorm,
+  type IdfTable,
+} from "@/lib/rainfall";
+import {
+  DEFAULT_VELOCITY_LIMITS,
+  VELOCITY_RULE_LABELS,
+  type VelocityLimits,
+} from "@/lib/velocityChecks";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEMS,
+  formatQuantity,
+  fromDisplay,
+  toDisplay,
+  toInputValue,
+  unitSymbol,
+  type Quantity,
+  type UnitSystem,
+} from "@/lib/units";
+import {
+  WORKING_SHEET_HEADER,
+  formatWorkingInputs,
+  formatWorkingStep,
+  workingSheetRow,
+} from "@/lib/working";
+import {
+  read as readXLSX,
+  utils as XLSXUtils,
+  writeFile as writeXLSXFile,
+  type WorkBook,
+} from "xlsx";
 
 // Grid / geometry constants (match the visual grid)
 const GRID_SIZE = 40; // distance between grid intersections in world space
@@ -43,6 +143,7 @@ const ELEMENT_TYPES = [
   "elbow90",
   "reducer",
   "tee",
+  "yvalve",
 ] as const;
 
 export type ElementType = (typeof ELEMENT_TYPES)[number];
@@ -63,6 +164,15 @@ export interface Node {
   y: number;
   type?: ElementType; // semantic type for this node
   capacity?: number;  // only meaningful when type === "outlet"
+  branchAngle?: number; // only meaningful when type === "tee" (45 or 90 degrees)
+  elevation?: number; // level above datum (m); only meaningful for outlets and discharges
+  fitting?: string; // fitting library key; falls back to the project choice for the node's kind
+  name?: string; // system name; only meaningful when type === "discharge"
+  catchmentArea?: number; // roof area draining to an outlet (m²); derives capacity
+  runoffCoefficient?: number; // runoff coefficient C for the catchment
+  capacityOverride?: boolean; // keep the typed-in capacity instead of C·i·A
+  product?: string; // outlet product key; only meaningful when type === "outlet"
+  discharge?: DischargeConfig; // gravity transition; only meaningful when type === "discharge"
 }
 
 export interface Edge {
@@ -72,6 +182,7 @@ export interface Edge {
   type?: ElementType; // semantic type for this segment (always "pipe" for edges)
   diameter?: number; // user-specified diameter for the pipe
   length?: number;   // user-specified length for the pipe
+  material?: string; // pipe material key; falls back to the project material
 }
 
 
@@ -88,6 +199,88 @@ function makeLabelKey(kind: ComponentKind, id: number): string {
   return `${kind}-${id}`;
 }
 
+// Excel sheet names may not contain : \ / ? * [ ], are limited to 31
+// characters and must be unique within a workbook.
+function uniqueSheetName(taken: string[], name: string): string {
+  const safe = name.replace(/[:\\/?*[\]]/g, "_").slice(0, 31) || "Sheet";
+  let candidate = safe;
+  for (let n = 2; taken.includes(candidate); n++) {
+    candidate = `${safe.slice(0, 26)} (${n})`;
+  }
+  return candidate;
+}
+
+// Columns of the per-path equation sheets. Headers are what the user sees;
+// keys are properties on EquationRow. Columns with a quantity are converted
+// to the project unit system and get its unit appended to the header.
+const EQUATION_COLUMNS: {
+  header: string;
+  key: Exclude<keyof EquationRow, "working">;
+  quantity?: Quantity;
+}[] = [
+  { header: "Index",      key: "index"    },
+  { header: "Item",       key: "item"     },
+  { header: "Q",          key: "Q",        quantity: "flow"             },
+  { header: "d",          key: "d",        quantity: "diameter"         },
+  { header: "L",          key: "L",        quantity: "length"           },
+  { header: "Vertical",   key: "vertical" },
+  { header: "Elbow",      key: "elbow"    },
+  { header: "Fitting",    key: "fitting"  },
+  { header: "Reducer",    key: "reducer"  },
+  { header: "T90",        key: "t90"      },
+  { header: "d90",        key: "d90",      quantity: "diameter"         },
+  { header: "q90",        key: "q90"      },
+  { header: "θ[°]",       key: "theta"    },
+  { header: "di",         key: "di",       quantity: "internalDiameter" },
+  { header: "V",          key: "V",        quantity: "velocity"         },
+  { header: "h",          key: "h",        quantity: "head"             },
+  { header: "Re",         key: "Re"       },
+  { header: "f",          key: "f"        },
+  { header: "A_out/A_in", key: "a"        },
+  { header: "Kfit",       key: "kfit"     },
+  { header: "Kred",       key: "kred"     },
+  { header: "Ktee",       key: "ktee"     },
+  { header: "Ktotal",     key: "ktotal"   },
+  { header: "vp",         key: "vp",       quantity: "head"             },
+  { header: "Delta_H",    key: "delta_H",  quantity: "head"             },
+  { header: "Delta_P",    key: "delta_P",  quantity: "pressure"         },
+];
+
+function equationSheetHeader(system: UnitSystem): string[] {
+  return EQUATION_COLUMNS.map((c) =>
+    c.quantity ? `${c.header}[${unitSymbol(system, c.quantity)}]` : c.header
+  );
+}
+
+function equationSheetRow(
+  row: EquationRow,
+  system: UnitSystem
+): (string | number | boolean)[] {
+  return EQUATION_COLUMNS.map((c) => {
+    const value = row[c.key];
+    if (value == null) return "";
+    return c.quantity && typeof value === "number"
+      ? toDisplay(system, c.quantity, value)
+      : value;
+  });
+}
+
+// "Working" sheet: every calculation step of every row, path by path, in
+// engine units so a reviewer can reproduce each value by hand.
+function workingSheet(groups: EquationRow[][]): (string | number)[][] {
+  const sheet: (string | number)[][] = [
+    ["Values in SI: Q L/s, lengths and di m, k and d mm, V m/s, heads and pressures m of water."],
+    WORKING_SHEET_HEADER,
+  ];
+  groups.forEach((rows, groupIndex) => {
+    for (const row of rows) {
+      for (const step of row.working ?? []) {
+        sheet.push(workingSheetRow(groupIndex + 1, row, step));
+      }
+    }
+  });
+  return sheet;
+}
 
 function computeLabelDefs(
   nodes: Node[],
@@ -196,6 +389,25 @@ export type CanvasComponent =
 // Canonical JSON-serializable shape for the entire canvas
 export interface CanvasJson {
   components: CanvasComponent[];
+  // Project-level roof outlet and discharge levels (m above datum).
+  roofLevel?: number;
+  dischargeLevel?: number;
+  // Project default pipe material key (see lib/materials).
+  material?: string;
+  // Design water temperature (°C).
+  temperature?: number;
+  // Pipe friction factor formulation (see lib/friction).
+  frictionModel?: FrictionModel;
+  // Project fitting library choice per fitting kind.
+  fittings?: FittingSelection;
+  // Design storm outlet capacities are derived from.
+  designStorm?: DesignStorm;
+  // IDF tables imported for the project location.
+  idfTables?: IdfTable[];
+  // Display unit system; calculations are always SI.
+  units?: UnitSystem;
+  // Blocked-outlet and partial-storm cases checked alongside the design.
+  scenarios?: Scenario[];
 }
 
 // Single-step snapshot of the logical canvas state used for Ctrl+Z/Ctrl+Y
@@ -552,6 +764,123 @@ export default function IsometricCanvas() {
   const [calculateOpen, setCalculateOpen] = useState(false);
   const [calculateError, setCalculateError] = useState<string | null>(null);
 
+  // Whether the drawing diagnostics list is expanded.
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+
+  // Project-level roof outlet and discharge levels used by the available-head
+  // check; nodes with their own elevation override these.
+  const [roofLevel, setRoofLevel] = useState<number | undefined>(undefined);
+  const [dischargeLevel, setDischargeLevel] = useState<number | undefined>(undefined);
+
+  // Units shown in popovers, the Calculate dialog and exports. Everything is
+  // stored and calculated in SI.
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const unitOf = (quantity: Quantity) => unitSymbol(unitSystem, quantity);
+  const fmt = (quantity: Quantity, value: number, digits?: number) =>
+    formatQuantity(unitSystem, quantity, value, digits);
+  const inputOf = (quantity: Quantity, value: number | null | undefined) =>
+    toInputValue(unitSystem, quantity, value);
+  const fromInput = (quantity: Quantity, value: number | undefined) =>
+    value === undefined ? undefined : fromDisplay(unitSystem, quantity, value);
+
+  // Project default pipe material; individual pipes may override it.
+  const [projectMaterial, setProjectMaterial] = useState<string>(DEFAULT_MATERIAL);
+
+  // Design water temperature; drives density, viscosity and vapour pressure.
+  const [waterTemperature, setWaterTemperature] = useState<number>(
+    DEFAULT_WATER_TEMPERATURE
+  );
+  const designFluid = useMemo(
+    () => waterProperties(waterTemperature),
+    [waterTemperature]
+  );
+
+  // Pipe friction factor formulation used by every calculation.
+  const [frictionModel, setFrictionModel] = useState<FrictionModel>(DEFAULT_FRICTION_MODEL);
+
+  // Project choice of fitting library entry per fitting kind; nodes may
+  // override it.
+  const [projectFittings, setProjectFittings] = useState<FittingSelection>({});
+
+  // Design storm; outlets with a catchment area take capacity = C·i·A.
+  const [designStorm, setDesignStorm] = useState<DesignStorm>(DEFAULT_DESIGN_STORM);
+  // IDF tables imported for the project location, saved with the design.
+  const [idfTables, setIdfTables] = useState<IdfTable[]>([]);
+  const idfFileInputRef = useRef<HTMLInputElement | null>(null);
+  const idfTableFor = (storm: DesignStorm): IdfTable =>
+    (storm.mode === "idf" && idfTables.find((t) => t.name === storm.table)) ||
+    DEFAULT_IDF_TABLE;
+  const activeIdfTable = idfTableFor(designStorm);
+  const designIntensity = resolveDesignIntensity(designStorm, activeIdfTable);
+
+  // Project-wide inputs passed to every Calculations run.
+  const projectSettings = useMemo(
+    () => ({
+      roofLevel,
+      dischargeLevel,
+      material: projectMaterial,
+      temperature: waterTemperature,
+      frictionModel,
+      fittings: projectFittings,
+    }),
+    [roofLevel, dischargeLevel, projectMaterial, waterTemperature, frictionModel, projectFittings]
+  );
+
+  // Minimum allowed pressure: a fixed gauge value or the vapour pressure at a
+  // design water temperature.
+  const [pressureLimit, setPressureLimit] = useState<PressureLimit>({
+    mode: "fixed",
+    minMbar: DEFAULT_MIN_PRESSURE_MBAR,
+  });
+
+  // Velocity rule thresholds (self-cleansing, downpipe maximum, collector
+  // running full).
+  const [velocityLimits, setVelocityLimits] = useState<VelocityLimits>(
+    DEFAULT_VELOCITY_LIMITS
+  );
+
+  // Largest residual-head difference allowed between an outlet path and the
+  // critical path of its system.
+  const [imbalanceTolerance, setImbalanceTolerance] = useState<ImbalanceTolerance>(
+    DEFAULT_IMBALANCE_TOLERANCE
+  );
+
+  // Flow-distribution solver: roof-to-discharge head entered in the Calculate
+  // dialog and the most recent solution for the current drawing.
+  const [solverHead, setSolverHead] = useState<number | undefined>(undefined);
+  const [flowSolution, setFlowSolution] = useState<FlowSolution | null>(null);
+  const [solverMessage, setSolverMessage] = useState<string | null>(null);
+
+  // Pipe auto-sizing: constraints entered in the Calculate dialog and the
+  // before/after summary of the last applied sizing.
+  const [sizingTolerance, setSizingTolerance] = useState<number | undefined>(0.5);
+  const [sizingSummary, setSizingSummary] = useState<AutoSizeResult | null>(null);
+  const [sizingMessage, setSizingMessage] = useState<string | null>(null);
+
+  // Sensitivity analysis: ± ranges entered in the Calculate dialog, the
+  // metric the tornado chart ranks by and the result of the last run.
+  const [sensitivityRanges, setSensitivityRanges] = useState<SensitivityRanges>(
+    DEFAULT_SENSITIVITY_RANGES
+  );
+  const [sensitivityMetric, setSensitivityMetric] = useState<"minPressure" | "imbalance">(
+    "minPressure"
+  );
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [sensitivityMessage, setSensitivityMessage] = useState<string | null>(null);
+  const [sensitivityRunning, setSensitivityRunning] = useState(false);
+
+  // Off-design scenarios (blocked outlets, partial storms) and the results of
+  // the last run, design case first.
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [scenarioResults, setScenarioResults] = useState<ScenarioResult[] | null>(null);
+
+  // Priming simulation: allowed priming time (s), minutes the storm takes to
+  // reach the design intensity, and the last result.
+  const [primingLimit, setPrimingLimit] = useState<number>(DEFAULT_PRIMING_LIMIT);
+  const [primingRamp, setPrimingRamp] = useState<number>(1);
+  const [priming, setPriming] = useState<PrimingResult | null>(null);
+  const [primingMessage, setPrimingMessage] = useState<string | null>(null);
+
   // Export dropdown state
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
 
@@ -598,6 +927,16 @@ export default function IsometricCanvas() {
 
       return list;
     })(),
+    roofLevel,
+    dischargeLevel,
+    material: projectMaterial,
+    temperature: waterTemperature,
+    frictionModel,
+    fittings: projectFittings,
+    designStorm,
+    idfTables,
+    units: unitSystem,
+    scenarios,
   };
 
   // Canonical order used for all indexing (labels, tables, popovers): this is
@@ -618,10 +957,35 @@ export default function IsometricCanvas() {
   // velocity/pressure in the popovers. Reuse the same logic as the
   // Calculation dialog so everything stays in sync.
   // We now have multiple EquationRow[] groups (e.g. one per outlet path).
-  const equationRowGroups = useMemo<EquationRow[][]>(() => {
-    if (!canvasJson.components.length) return [];
-    return computeRowsFromComponents(canvasJson.components as any[]);
-  }, [canvasJson]);
+  // Each discharge drains its own system; `systems` maps them to their
+  // outlet paths in equationRowGroups.
+  // The head, outlet, discharge, velocity and path-balance checks come from
+  // the same run.
+  const {
+    rows: equationRowGroups,
+    systems,
+    headChecks,
+    outletChecks,
+    dischargeChecks,
+    velocityViolations,
+    pathImbalance,
+    error: networkError,
+  } = useMemo<NetworkResult>(
+    () =>
+      computeNetworkFromComponents(canvasJson.components, projectSettings, {
+        velocityLimits,
+        imbalanceTolerance,
+      }),
+    [canvasJson, projectSettings, velocityLimits, imbalanceTolerance]
+  );
+
+  // Live drawing diagnostics: topology problems that make the calculation
+  // fail or drop outlets, each pointing at the offending node or edge.
+  const topologyIssues = useMemo(
+    () =>
+      validateTopologyFromComponents(canvasJson.components, equationRowGroups),
+    [canvasJson, equationRowGroups]
+  );
 
   // For UI elements (popovers, labels) that expect a single sequence, we
   // flatten all groups into one array while preserving each group's order.
@@ -668,14 +1032,12 @@ export default function IsometricCanvas() {
 
       let maxP = -Infinity;
       let minP = Infinity;
-      let sumH = 0;
+      const sumH = pathHeadLoss(rows);
 
       for (const row of rows) {
         const p = typeof row.delta_P === "number" ? row.delta_P : 0;
-        const h = typeof row.delta_H === "number" ? row.delta_H : 0;
         if (p > maxP) maxP = p;
         if (p < minP) maxP = p;
-        sumH += h;
       }
 
       const firstRow = rows[0];
@@ -703,6 +1065,61 @@ export default function IsometricCanvas() {
     };
   }, [flatEquationRows, equationRowGroups]);
 
+  // Rows below the minimum-pressure limit, checked on every row of every
+  // outlet path, and the canvas components they belong to.
+  const pressureLimitM = useMemo(
+    () => resolvePressureLimit(pressureLimit, designFluid),
+    [pressureLimit, designFluid]
+  );
+  const pressureViolations = useMemo(
+    () => checkPressureLimit(equationRowGroups, pressureLimitM),
+    [equationRowGroups, pressureLimitM]
+  );
+  const pressureViolationKeys = useMemo(() => {
+    const keys = new Set<string>();
+    for (const v of pressureViolations) {
+      const comp = canonicalOrder[v.index - 1];
+      if (comp) keys.add(`${comp.component}:${comp.id}`);
+    }
+    return keys;
+  }, [pressureViolations, canonicalOrder]);
+
+  // Calculate-dialog summaries grouped by system (one per discharge), each
+  // with its own pressure range.
+  const systemSummaries = useMemo(() => {
+    const groups: SystemInfo[] = systems.length
+      ? systems
+      : [
+          {
+            system: 1,
+            name: "System 1",
+            dischargeIndex: 0,
+            paths: equationRowGroups.map((_, i) => i),
+          },
+        ];
+
+    return groups.map((sys) => {
+      let maxP = -Infinity;
+      let minP = Infinity;
+      for (const idx of sys.paths) {
+        for (const row of equationRowGroups[idx] ?? []) {
+          const p = typeof row.delta_P === "number" ? row.delta_P : 0;
+          if (p > maxP) maxP = p;
+          if (p < minP) minP = p;
+        }
+      }
+      return {
+        system: sys.system,
+        name: sys.name,
+        maxP: Number.isFinite(maxP) ? maxP : 0,
+        minP: Number.isFinite(minP) ? minP : 0,
+        summaries: pressureStats.outletSummaries.filter((s) =>
+          sys.paths.includes(s.outletIndex - 1)
+        ),
+      };
+    });
+  }, [systems, equationRowGroups, pressureStats]);
+
   // Map from (component kind, id) to its 1-based index in the **canonical**
   // order used by the Equations solver. This keeps graph labels, popovers, and
   // the calculation table perfectly in sync.
@@ -1381,8 +1798,9 @@ export default function IsometricCanvas() {
               type = type ?? getDefaultNodeType(prev);
             } else if (degreeAfter >= 3) {
               // Branching: turning an existing node into a junction. Represent
-              // that junction as a tee symbol in the UI.
-              if (type !== "discharge" && type !== "outlet") {
+              // that junction as a tee symbol in the UI (an explicit Y-valve
+              // stays a Y-valve).
+              if (type !== "discharge" && type !== "outlet" && type !== "yvalve") {
                 type = "tee";
               }
             }
@@ -1748,7 +2166,11 @@ export default function IsometricCanvas() {
     for (const node of nodes) {
       // Do not place automatic reducers at outlets or tees; any reducers there
       // should be explicit in the drawing.
-      if (node.type === "outlet" || (node.type && node.type.startsWith("tee"))) {
+      if (
+        node.type === "outlet" ||
+        node.type === "yvalve" ||
+        (node.type && node.type.startsWith("tee"))
+      ) {
         continue;
       }
 
@@ -1854,7 +2276,7 @@ export default function IsometricCanvas() {
       const compKey = `edge:${edge.id}`;
       const pVal = pByComponent.get(compKey);
       const isPressureExtreme =
-        typeof pVal === "number" && (pVal < -9 || pVal > 9);
+        pressureViolationKeys.has(compKey) || (typeof pVal === "number" && pVal > 9);
       const isMultiSelectedEdge = multiSelectedEdgeIds.includes(edge.id);
       const isSelectedEdge =
         canvasSelectedEdgeId === edge.id || isMultiSelectedEdge;
@@ -2043,7 +2465,7 @@ export default function IsometricCanvas() {
       const compKey = `node:${node.id}`;
       const pVal = pByComponent.get(compKey);
       const isPressureExtreme =
-        typeof pVal === "number" && (pVal < -9 || pVal > 9);
+        pressureViolationKeys.has(compKey) || (typeof pVal === "number" && pVal > 9);
       const isMultiSelectedNode = multiSelectedNodeIds.includes(node.id);
       const isSelectedNode =
         canvasSelectedNodeId === node.id || isMultiSelectedNode;
@@ -2158,6 +2580,18 @@ export default function IsometricCanvas() {
           pushLine(cx, cy, cx, cy + stemLen);
           break;
         }
+        case "yvalve": {
+          // Y-shape: single stem with two legs splaying out at 45°
+          const stemLen = r * 1.2;
+          const legLen = r * 1.4;
+          const diag = legLen * Math.SQRT1_2;
+          // stem
+          pushLine(cx, cy, cx, cy - stemLen);
+          // legs
+          pushLine(cx, cy, cx - diag, cy + diag);
+          pushLine(cx, cy, cx + diag, cy + diag);
+          break;
+        }
         case "elbow45":
         case "elbow90": {
           // Quarter-circle hint plus a small dot at the junction
@@ -2273,7 +2707,7 @@ export default function IsometricCanvas() {
       const count = lineArray.length / 6;
       gl.drawArrays(gl.LINES, 0, count);
     }
-    }, [currentNodeId, drawingEnabled, edges, ghostEnd, nodes, offset, zoom, flatEquationRows, canonicalOrder, selectedNodeId, selectedEdgeId, pendingReducerIds, multiSelectedNodeIds, multiSelectedEdgeIds]);
+    }, [currentNodeId, drawingEnabled, edges, ghostEnd, nodes, offset, zoom, flatEquationRows, canonicalOrder, pressureViolationKeys, selectedNodeId, selectedEdgeId, pendingReducerIds, multiSelectedNodeIds, multiSelectedEdgeIds]);
 
   const cursorClass = drawingEnabled
     ? "cursor-crosshair"
@@ -2400,6 +2834,175 @@ export default function IsometricCanvas() {
     return Math.abs(x1 - x2) <= TOL && Math.abs(y1 - y2) > TOL;
   };
 
+  // Design basis for exports: the friction model, the storm, the IDF curve it
+  // came from and the outlets whose capacity was derived from it.
+  const buildDesignBasisSheet = (): (string | number)[][] => {
+    const sheet: (string | number)[][] = [
+      ["Friction model", FRICTION_MODEL_LABELS[frictionModel]],
+      [],
+      ["Design rainfall"],
+    ];
+    if (designStorm.mode === "direct") {
+      sheet.push(["Source", "Intensity entered directly"]);
+    } else {
+      sheet.push(
+        ["Source", `IDF table: ${activeIdfTable.name}`],
+        ["Return period [yr]", designStorm.returnPeriod],
+        ["Critical duration [min]", designStorm.duration]
+      );
+    }
+    sheet.push(
+      [`Intensity [${unitOf("intensity")}]`, toDisplay(unitSystem, "intensity", designIntensity)]
+    );
+    if (unitSystem === "si") {
+      sheet.push(["Intensity [mm/h]", designIntensity * MM_PER_HOUR_PER_LSM2]);
+    }
+
+    if (designStorm.mode === "idf") {
+      sheet.push(
+        [],
+        [`IDF curve, ${designStorm.returnPeriod} yr`],
+        ["Duration [min]", `Intensity [${unitOf("intensity")}]`]
+      );
+      for (const point of idfCurve(activeIdfTable, designStorm.returnPeriod)) {
+        sheet.push([point.duration, toDisplay(unitSystem, "intensity", point.intensity)]);
+      }
+    }
+
+    sheet.push(
+      [],
+      [
+        "Outlet",
+        `Catchment [${unitOf("area")}]`,
+        "Runoff coeff.",
+        `Q[${unitOf("flow")}]`,
+        "Capacity source",
+      ]
+    );
+    for (const node of nodes) {
+      if (node.type !== "outlet") continue;
+      sheet.push([
+        componentIndexMap.get(`node:${node.id}`) ?? "",
+        typeof node.catchmentArea === "number"
+          ? toDisplay(unitSystem, "area", node.catchmentArea)
+          : "",
+        typeof node.catchmentArea === "number"
+          ? node.runoffCoefficient ?? DEFAULT_RUNOFF_COEFFICIENT
+          : "",
+        typeof node.capacity === "number"
+          ? toDisplay(unitSystem, "flow", node.capacity)
+          : "",
+        hasDerivedCapacity(node)
+          ? "C·i·A"
+          : typeof node.catchmentArea === "number"
+          ? "Override"
+          : "Entered",
+      ]);
+    }
+    return sheet;
+  };
+
+  // Outlet path balance for exports.
+  const buildImbalanceSheet = (): (string | number)[][] => {
+    const sheet: (string | number)[][] = [
+      [
+        `Tolerance [${unitOf("pressureSetting")}]`,
+        toDisplay(unitSystem, "pressureSetting", imbalanceTolerance.maxMbar),
+      ],
+      ["Tolerance [%]", imbalanceTolerance.maxPercent],
+      [],
+      [
+        "System",
+        "Outlet path",
+        "Outlet index",
+        `Available head [${unitOf("head")}]`,
+        `Σh [${unitOf("head")}]`,
+        `Residual [${unitOf("head")}]`,
+        "Critical path",
+        `Difference [${unitOf("head")}]`,
+        `Difference [${unitOf("pressureSetting")}]`,
+        "Difference [%]",
+        "Result",
+      ],
+    ];
+    for (const p of pathImbalance) {
+      sheet.push([
+        p.system,
+        p.pathIndex,
+        p.drawIndex,
+        toDisplay(unitSystem, "head", p.availableHead),
+        toDisplay(unitSystem, "head", p.headLoss),
+        toDisplay(unitSystem, "head", p.residualHead),
+        p.criticalPathIndex,
+        toDisplay(unitSystem, "head", p.difference),
+        toDisplay(unitSystem, "pressureSetting", p.differenceMbar),
+        p.differencePercent,
+        p.critical ? "Critical" : p.pass ? "Pass" : "Out of tolerance",
+      ]);
+    }
+    return sheet;
+  };
+
+  // Name of the equation sheet for outlet path `groupIndex`. With several
+  // systems, sheets are named after the system and numbered within it;
+  // `suffix` marks variants such as the reversed export.
+  const pathSheetName = (taken: string[], groupIndex: number, suffix = "") => {
+    const baseName = fileName || "Path";
+    const system = systems.find((sys) => sys.paths.includes(groupIndex));
+    const name =
+      systems.length > 1 && system
+        ? `${system.name.slice(0, 27 - suffix.length)}${suffix}-${system.paths.indexOf(groupIndex) + 1}`
+        : equationRowGroups.length === 1
+        ? `${baseName}${suffix}`
+        : `${baseName}${suffix}-${groupIndex + 1}`;
+    return uniqueSheetName(taken, name);
+  };
+
+  // Network-wide report sheets appended after the per-path equation sheets
+  // of every equations export. Names go through uniqueSheetName so a path
+  // sheet named after a system cannot collide with them.
+  const appendReportSheets = (workbook: WorkBook) => {
+    // Velocity rule results for the whole network on their own sheet.
+    // Froude numbers are dimensionless; velocities follow the unit system.
+    const velocitySheet: (string | number)[][] = [
+      ["Index", "Rule", "Value", "Threshold", "Unit"],
+      ...velocityViolations.map((v) =>
+        v.rule === "collector_full"
+          ? [v.index, VELOCITY_RULE_LABELS[v.rule], v.value, v.threshold, "Fr"]
+          : [
+              v.index,
+              VELOCITY_RULE_LABELS[v.rule],
+              toDisplay(unitSystem, "velocity", v.value),
+              toDisplay(unitSystem, "velocity", v.threshold),
+              unitOf("velocity"),
+            ]
+      ),
+    ];
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(velocitySheet),
+      uniqueSheetName(workbook.SheetNames, "Velocity checks")
+    );
+
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(buildImbalanceSheet()),
+      uniqueSheetName(workbook.SheetNames, "Path balance")
+    );
+
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(workingSheet(equationRowGroups)),
+      uniqueSheetName(workbook.SheetNames, "Working")
+    );
+
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(buildDesignBasisSheet()),
+      uniqueSheetName(workbook.SheetNames, "Design basis")
+    );
+  };
+
   const handleExportExcel = () => {
     if (!canvasJson.components.length) {
       alert("Nothing to export: draw some components first.");
@@ -2411,34 +3014,6 @@ export default function IsometricCanvas() {
       return;
     }
 
-    // Column definitions shared by all sheets. Headers are what the user sees;
-    // keys are properties on EquationRow.
-    const columns = [
-      { header: "Index",      key: "index"    },
-      { header: "Item",       key: "item"     },
-      { header: "Q[L/s]",     key: "Q"        },
-      { header: "d[mm]",      key: "d"        },
-      { header: "L[m]",       key: "L"        },
-      { header: "Vertical",   key: "vertical" },
-      { header: "Elbow",      key: "elbow"    },
-      { header: "Reducer",    key: "reducer"  },
-      { header: "T90",        key: "t90"      },
-      { header: "d90",        key: "d90"      },
-      { header: "q90",        key: "q90"      },
-      { header: "di",         key: "di"       },
-      { header: "V[m/s]",     key: "V"        },
-      { header: "h[m]",       key: "h"        },
-      { header: "Re",         key: "Re"       },
-      { header: "f",          key: "f"        },
-      { header: "A_out/A_in", key: "a"        },
-      { header: "Kred",       key: "kred"     },
-      { header: "Ktee",       key: "ktee"     },
-      { header: "Ktotal",     key: "ktotal"   },
-      { header: "m",          key: "vp"       },
-      { header: "Delta_H",    key: "delta_H"  },
-      { header: "Delta_P",    key: "delta_P"  },
-    ] as const;
-
     const workbook = XLSXUtils.book_new();
 
     equationRowGroups.forEach((rows, groupIndex) => {
@@ -2447,33 +3022,23 @@ export default function IsometricCanvas() {
       // Build a 2D array of values: first the header row, then one row per
       // EquationRow in this group.
       const sheetData: (string | number | boolean)[][] = [];
-      sheetData.push(columns.map((c) => c.header));
+      sheetData.push(equationSheetHeader(unitSystem));
 
       for (const row of rows) {
-        sheetData.push(
-          columns.map((c) => {
-            const value = (row as any)[c.key];
-            return value == null ? "" : (value as any);
-          })
-        );
+        sheetData.push(equationSheetRow(row, unitSystem));
       }
 
       const worksheet = XLSXUtils.aoa_to_sheet(sheetData);
 
-      // Derive a sheet name; keep it within Excel's 31-character limit.
-      const baseName = fileName || "Path";
-      const sheetName =
-        equationRowGroups.length === 1
-          ? baseName
-          : `${baseName}-${groupIndex + 1}`;
-
       XLSXUtils.book_append_sheet(
         workbook,
         worksheet,
-        sheetName.slice(0, 31)
+        pathSheetName(workbook.SheetNames, groupIndex)
       );
     });
 
+    appendReportSheets(workbook);
+
     const baseName = fileName || "canvas";
     writeXLSXFile(workbook, `${baseName}-equations.xlsx`);
   };
@@ -2489,68 +3054,33 @@ export default function IsometricCanvas() {
       return;
     }
 
-    const columns = [
-      { header: "Index",      key: "index"    },
-      { header: "Item",       key: "item"     },
-      { header: "Q[L/s]",     key: "Q"        },
-      { header: "d[mm]",      key: "d"        },
-      { header: "L[m]",       key: "L"        },
-      { header: "Vertical",   key: "vertical" },
-      { header: "Elbow",      key: "elbow"    },
-      { header: "Reducer",    key: "reducer"  },
-      { header: "T90",        key: "t90"      },
-      { header: "d90",        key: "d90"      },
-      { header: "q90",        key: "q90"      },
-      { header: "di",         key: "di"       },
-      { header: "V[m/s]",     key: "V"        },
-      { header: "h[m]",       key: "h"        },
-      { header: "Re",         key: "Re"       },
-      { header: "f",          key: "f"        },
-      { header: "A_out/A_in", key: "a"        },
-      { header: "Kred",       key: "kred"     },
-      { header: "Ktee",       key: "ktee"     },
-      { header: "Ktotal",     key: "ktotal"   },
-      { header: "m",          key: "vp"       },
-      { header: "Delta_H",    key: "delta_H"  },
-      { header: "Delta_P",    key: "delta_P"  },
-    ] as const;
-
     const workbook = XLSXUtils.book_new();
 
     equationRowGroups.forEach((rows, groupIndex) => {
       if (!rows || rows.length === 0) return;
 
       const sheetData: (string | number | boolean)[][] = [];
-      sheetData.push(columns.map((c) => c.header));
+      sheetData.push(equationSheetHeader(unitSystem));
 
       // Reverse the order for this outlet path: last component (outlet)
       // appears first, then back toward the discharge.
       const reversed = [...rows].reverse();
 
       for (const row of reversed) {
-        sheetData.push(
-          columns.map((c) => {
-            const value = (row as any)[c.key];
-            return value == null ? "" : (value as any);
-          })
-        );
+        sheetData.push(equationSheetRow(row, unitSystem));
       }
 
       const worksheet = XLSXUtils.aoa_to_sheet(sheetData);
 
-      const baseName = fileName || "Path";
-      const sheetName =
-        equationRowGroups.length === 1
-          ? `${baseName}-rev`
-          : `${baseName}-rev-${groupIndex + 1}`;
-
       XLSXUtils.book_append_sheet(
         workbook,
         worksheet,
-        sheetName.slice(0, 31)
+        pathSheetName(workbook.SheetNames, groupIndex, "-rev")
       );
     });
 
+    appendReportSheets(workbook);
+
     const baseName = fileName || "canvas";
     writeXLSXFile(workbook, `${baseName}-equations-reverse.xlsx`);
   };
@@ -2568,68 +3098,79 @@ export default function IsometricCanvas() {
 
     // Reuse the same workbook structure as Excel export; the resulting .xlsx
     // file can be uploaded or imported directly into Google Sheets.
-    const columns = [
-      { header: "Index",      key: "index"    },
-      { header: "Item",       key: "item"     },
-      { header: "Q[L/s]",     key: "Q"        },
-      { header: "d[mm]",      key: "d"        },
-      { header: "L[m]",       key: "L"        },
-      { header: "Vertical",   key: "vertical" },
-      { header: "Elbow",      key: "elbow"    },
-      { header: "Reducer",    key: "reducer"  },
-      { header: "T90",        key: "t90"      },
-      { header: "d90",        key: "d90"      },
-      { header: "q90",        key: "q90"      },
-      { header: "di",         key: "di"       },
-      { header: "V[m/s]",     key: "V"        },
-      { header: "h[m]",       key: "h"        },
-      { header: "Re",         key: "Re"       },
-      { header: "f",          key: "f"        },
-      { header: "A_out/A_in", key: "a"        },
-      { header: "Kred",       key: "kred"     },
-      { header: "Ktee",       key: "ktee"     },
-      { header: "Ktotal",     key: "ktotal"   },
-      { header: "m",          key: "vp"       },
-      { header: "Delta_H",    key: "delta_H"  },
-      { header: "Delta_P",    key: "delta_P"  },
-    ] as const;
-
     const workbook = XLSXUtils.book_new();
 
     equationRowGroups.forEach((rows, groupIndex) => {
       if (!rows || rows.length === 0) return;
 
       const sheetData: (string | number | boolean)[][] = [];
-      sheetData.push(columns.map((c) => c.header));
+      sheetData.push(equationSheetHeader(unitSystem));
 
       for (const row of rows) {
-        sheetData.push(
-          columns.map((c) => {
-            const value = (row as any)[c.key];
-            return value == null ? "" : (value as any);
-          })
-        );
+        sheetData.push(equationSheetRow(row, unitSystem));
       }
 
       const worksheet = XLSXUtils.aoa_to_sheet(sheetData);
 
-      const baseName = fileName || "Path";
-      const sheetName =
-        equationRowGroups.length === 1
-          ? baseName
-          : `${baseName}-${groupIndex + 1}`;
-
       XLSXUtils.book_append_sheet(
         workbook,
         worksheet,
-        sheetName.slice(0, 31)
+        pathSheetName(workbook.SheetNames, groupIndex)
       );
     });
 
+    appendReportSheets(workbook);
+
     const baseName = fileName || "canvas";
     writeXLSXFile(workbook, `${baseName}-equations-google-sheets.xlsx`);
   };
 
+  const handleExportTeeParity = () => {
+    if (!canvasJson.components.length) {
+      alert("Nothing to export: draw some components first.");
+      return;
+    }
+
+    // Reference coefficients from components/python/equations.py against
+    // the port used by Calculations on the fixed grid of teeReference.json.
+    // The grid checks the port itself, not this network's tee inputs.
+    const paritySheet: (string | number)[][] = [
+      ["Item", "θ[°]", "A_90/A", "q90", "Ktee (Python)", "Ktee (TypeScript)", "Difference"],
+    ];
+    for (const row of compareTeeModels()) {
+      paritySheet.push([
+        row.item,
+        row.theta,
+        row.a,
+        row.q,
+        row.K,
+        row.ported,
+        row.difference,
+      ]);
+    }
+
+    // The tees of this network and the inputs of their coefficients, as
+    // calculated by the port.
+    const teeSheet: (string | number)[][] = [
+      ["Index", "Item", "θ[°]", "A_90/A", "q90", "Ktee"],
+    ];
+    for (const row of networkTees(equationRowGroups)) {
+      teeSheet.push([row.index, row.item, row.theta, row.a, row.q90, row.ktee]);
+    }
+
+    const workbook = XLSXUtils.book_new();
+    XLSXUtils.book_append_sheet(workbook, XLSXUtils.aoa_to_sheet(paritySheet), "Tee grid parity");
+    XLSXUtils.book_append_sheet(workbook, XLSXUtils.aoa_to_sheet(teeSheet), "Network tees");
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(buildDesignBasisSheet()),
+      uniqueSheetName(workbook.SheetNames, "Design basis")
+    );
+
+    const baseName = fileName || "canvas";
+    writeXLSXFile(workbook, `${baseName}-tee-parity.xlsx`);
+  };
+
   const handleExportQuantities = () => {
     if (!canvasJson.components.length) {
       alert("Nothing to export: draw some components first.");
@@ -2641,213 +3182,249 @@ export default function IsometricCanvas() {
       return;
     }
 
-    // Build a single quantities sheet with aggregated take‑offs by component
-    // type and diameter. The default d[mm] value is treated as the *exit*
-    // diameter in discharge → outlet order.
-    const sheetData: (string | number | boolean)[][] = [];
-
-    // --- Pipes: total length per exit diameter ---
-    const pipeTotals = new Map<number, number>();
-    for (const path of equationRowGroups) {
-      for (const row of path) {
-        if (row.item !== "pipe") continue;
-        const d = typeof row.d === "number" ? row.d : 0;
-        const L = typeof row.L === "number" ? row.L : 0;
-        if (!d || !L) continue;
-        pipeTotals.set(d, (pipeTotals.get(d) ?? 0) + L);
-      }
-    }
-    if (pipeTotals.size > 0) {
-      sheetData.push(["Pipes"]);
-      sheetData.push(["d[mm]", "L[m]"]);
-      Array.from(pipeTotals.entries())
-        .sort(([d1], [d2]) => d1 - d2)
-        .forEach(([d, L]) => {
-          sheetData.push([d, L]);
-        });
-      sheetData.push([]);
-    }
-
-    // --- Reducers: count per (start_d, end_d) pair ---
-    type ReducerSummary = { startD: number; endD: number; count: number };
-    const reducerTotals = new Map<string, ReducerSummary>();
-
-    for (const path of equationRowGroups) {
-      for (let i = 0; i < path.length; i++) {
-        const row = path[i];
-        if (row.item !== "reducer") continue;
-
-        // Start diameter: upstream exit diameter (previous row in the path)
-        let startD = typeof path[i - 1]?.d === "number" ? path[i - 1]!.d! : 0;
-        // End diameter: exit diameter of the reducer row itself by default
-        let endD = typeof row.d === "number" ? row.d : 0;
-
-        // Fallbacks if either side is missing: search outward along the path.
-        if (!startD) {
-          for (let j = i - 1; j >= 0; j--) {
-            const d = path[j].d;
-            if (typeof d === "number" && d > 0) {
-              startD = d;
-              break;
+    // Build a quantities sheet with aggregated take‑offs by component type and
+    // diameter. The default d[mm] value is treated as the *exit* diameter in
+    // discharge → outlet order.
+    const buildQuantitiesSheet = (groups: EquationRow[][]) => {
+      const sheetData: (string | number | boolean)[][] = [];
+      // Totals are grouped on SI diameters and converted when written.
+      const dOut = (d: number) => toDisplay(unitSystem, "diameter", d);
+
+      // --- Pipes: total length per exit diameter ---
+      const pipeTotals = new Map<number, number>();
+      for (const path of groups) {
+        for (const row of path) {
+          if (row.item !== "pipe") continue;
+          const d = typeof row.d === "number" ? row.d : 0;
+          const L = typeof row.L === "number" ? row.L : 0;
+          if (!d || !L) continue;
+          pipeTotals.set(d, (pipeTotals.get(d) ?? 0) + L);
+        }
+      }
+      if (pipeTotals.size > 0) {
+        sheetData.push(["Pipes"]);
+        sheetData.push([`d[${unitOf("diameter")}]`, `L[${unitOf("length")}]`]);
+        Array.from(pipeTotals.entries())
+          .sort(([d1], [d2]) => d1 - d2)
+          .forEach(([d, L]) => {
+            sheetData.push([dOut(d), toDisplay(unitSystem, "length", L)]);
+          });
+        sheetData.push([]);
+      }
+
+      // --- Reducers: count per (start_d, end_d) pair ---
+      type ReducerSummary = { startD: number; endD: number; count: number };
+      const reducerTotals = new Map<string, ReducerSummary>();
+
+      for (const path of groups) {
+        for (let i = 0; i < path.length; i++) {
+          const row = path[i];
+          if (row.item !== "reducer") continue;
+
+          // Start diameter: upstream exit diameter (previous row in the path)
+          let startD = typeof path[i - 1]?.d === "number" ? path[i - 1]!.d! : 0;
+          // End diameter: exit diameter of the reducer row itself by default
+          let endD = typeof row.d === "number" ? row.d : 0;
+
+          // Fallbacks if either side is missing: search outward along the path.
+          if (!startD) {
+            for (let j = i - 1; j >= 0; j--) {
+              const d = path[j].d;
+              if (typeof d === "number" && d > 0) {
+                startD = d;
+                break;
+              }
             }
           }
-        }
-        if (!endD) {
-          for (let j = i + 1; j < path.length; j++) {
-            const d = path[j].d;
-            if (typeof d === "number" && d > 0) {
-              endD = d;
-              break;
+          if (!endD) {
+            for (let j = i + 1; j < path.length; j++) {
+              const d = path[j].d;
+              if (typeof d === "number" && d > 0) {
+                endD = d;
+                break;
+              }
             }
           }
-        }
 
-        if (!startD || !endD) continue;
+          if (!startD || !endD) continue;
 
-        const key = `${startD}|${endD}`;
-        const existing = reducerTotals.get(key);
-        if (existing) {
-          existing.count += 1;
-        } else {
-          reducerTotals.set(key, { startD, endD, count: 1 });
+          const key = `${startD}|${endD}`;
+          const existing = reducerTotals.get(key);
+          if (existing) {
+            existing.count += 1;
+          } else {
+            reducerTotals.set(key, { startD, endD, count: 1 });
+          }
         }
       }
-    }
 
-    if (reducerTotals.size > 0) {
-      sheetData.push(["Reducers"]);
-      sheetData.push(["Start d[mm]", "End d[mm]", "Qty"]);
-      Array.from(reducerTotals.values())
-        .sort((a, b) => (a.startD - b.startD) || (a.endD - b.endD))
-        .forEach(({ startD, endD, count }) => {
-          sheetData.push([startD, endD, count]);
-        });
-      sheetData.push([]);
-    }
-
-    // --- Elbows: count per item & diameter ---
-    type ElbowSummary = { item: string; d: number; count: number };
-    const elbowTotals = new Map<string, ElbowSummary>();
-
-    for (const path of equationRowGroups) {
-      for (const row of path) {
-        if (row.item !== "elbow45" && row.item !== "elbow90") continue;
-        const d = typeof row.d === "number" ? row.d : 0;
-        if (!d) continue;
-        const key = `${row.item}|${d}`;
-        const existing = elbowTotals.get(key);
-        if (existing) {
-          existing.count += 1;
-        } else {
-          elbowTotals.set(key, { item: row.item, d, count: 1 });
-        }
+      if (reducerTotals.size > 0) {
+        sheetData.push(["Reducers"]);
+        sheetData.push([`Start d[${unitOf("diameter")}]`, `End d[${unitOf("diameter")}]`, "Qty"]);
+        Array.from(reducerTotals.values())
+          .sort((a, b) => (a.startD - b.startD) || (a.endD - b.endD))
+          .forEach(({ startD, endD, count }) => {
+            sheetData.push([dOut(startD), dOut(endD), count]);
+          });
+        sheetData.push([]);
       }
-    }
 
-    if (elbowTotals.size > 0) {
-      sheetData.push(["Elbows"]);
-      sheetData.push(["Item", "d[mm]", "Qty"]);
-      Array.from(elbowTotals.values())
-        .sort((a, b) => {
-          if (a.item === b.item) return a.d - b.d;
-          return a.item < b.item ? -1 : 1;
-        })
-        .forEach(({ item, d, count }) => {
-          sheetData.push([item, d, count]);
-        });
-      sheetData.push([]);
-    }
-
-    // --- Outlets & discharge: count per item & diameter ---
-    type TerminalSummary = { item: string; d: number; count: number };
-    const terminalTotals = new Map<string, TerminalSummary>();
-
-    for (const path of equationRowGroups) {
-      for (const row of path) {
-        if (row.item !== "outlet" && row.item !== "discharge") continue;
-        const d = typeof row.d === "number" ? row.d : 0;
-        if (!d) continue;
-        const key = `${row.item}|${d}`;
-        const existing = terminalTotals.get(key);
-        if (existing) {
-          existing.count += 1;
-        } else {
-          terminalTotals.set(key, { item: row.item, d, count: 1 });
+      // --- Elbows: count per item & diameter ---
+      type ElbowSummary = { item: string; d: number; count: number };
+      const elbowTotals = new Map<string, ElbowSummary>();
+
+      for (const path of groups) {
+        for (const row of path) {
+          if (row.item !== "elbow45" && row.item !== "elbow90") continue;
+          const d = typeof row.d === "number" ? row.d : 0;
+          if (!d) continue;
+          const key = `${row.item}|${d}`;
+          const existing = elbowTotals.get(key);
+          if (existing) {
+            existing.count += 1;
+          } else {
+            elbowTotals.set(key, { item: row.item, d, count: 1 });
+          }
         }
       }
-    }
-
-    if (terminalTotals.size > 0) {
-      sheetData.push(["Outlets & Discharges"]);
-      sheetData.push(["Item", "d[mm]", "Qty"]);
-      Array.from(terminalTotals.values())
-        .sort((a, b) => {
-          if (a.item === b.item) return a.d - b.d;
-          return a.item < b.item ? -1 : 1;
-        })
-        .forEach(({ item, d, count }) => {
-          sheetData.push([item, d, count]);
-        });
-      sheetData.push([]);
-    }
-
-    // --- Tees: grouped by main enter, main exit, side exit diameters ---
-    type TeeSummary = {
-      mainEnter: number;
-      mainExit: number;
-      sideExit: number;
-      count: number;
-    };
-    const teeTotals = new Map<string, TeeSummary>();
 
-    for (const path of equationRowGroups) {
-      for (let i = 0; i < path.length; i++) {
-        const row = path[i];
-        if (row.item !== "tee_main") continue;
+      if (elbowTotals.size > 0) {
+        sheetData.push(["Elbows"]);
+        sheetData.push(["Item", `d[${unitOf("diameter")}]`, "Qty"]);
+        Array.from(elbowTotals.values())
+          .sort((a, b) => {
+            if (a.item === b.item) return a.d - b.d;
+            return a.item < b.item ? -1 : 1;
+          })
+          .forEach(({ item, d, count }) => {
+            sheetData.push([item, dOut(d), count]);
+          });
+        sheetData.push([]);
+      }
 
-        let mainEnter = typeof path[i - 1]?.d === "number" ? path[i - 1]!.d! : 0;
-        let mainExit = typeof row.d === "number" ? row.d : 0;
-        let sideExit = typeof row.d90 === "number" ? row.d90 : 0;
+      // --- Outlets & discharge: count per item & diameter ---
+      type TerminalSummary = { item: string; d: number; count: number };
+      const terminalTotals = new Map<string, TerminalSummary>();
+
+      for (const path of groups) {
+        for (const row of path) {
+          if (row.item !== "outlet" && row.item !== "discharge") continue;
+          const d = typeof row.d === "number" ? row.d : 0;
+          if (!d) continue;
+          const key = `${row.item}|${d}`;
+          const existing = terminalTotals.get(key);
+          if (existing) {
+            existing.count += 1;
+          } else {
+            terminalTotals.set(key, { item: row.item, d, count: 1 });
+          }
+        }
+      }
 
-        if (!mainEnter) mainEnter = mainExit;
-        if (!mainExit) mainExit = mainEnter;
-        if (!sideExit) sideExit = mainExit;
+      if (terminalTotals.size > 0) {
+        sheetData.push(["Outlets & Discharges"]);
+        sheetData.push(["Item", `d[${unitOf("diameter")}]`, "Qty"]);
+        Array.from(terminalTotals.values())
+          .sort((a, b) => {
+            if (a.item === b.item) return a.d - b.d;
+            return a.item < b.item ? -1 : 1;
+          })
+          .forEach(({ item, d, count }) => {
+            sheetData.push([item, dOut(d), count]);
+          });
+        sheetData.push([]);
+      }
 
-        if (!mainEnter || !mainExit || !sideExit) continue;
+      // --- Tees and Y-valves: grouped by main enter, main exit, side exit
+      //     diameters ---
+      type TeeSummary = {
+        mainEnter: number;
+        mainExit: number;
+        sideExit: number;
+        count: number;
+      };
+      const junctionSections = [
+        { junction: "tee", title: "Tees", prefix: "Tee" },
+        { junction: "yvalve", title: "Y-valves", prefix: "Y" },
+      ] as const;
+
+      for (const section of junctionSections) {
+        const teeTotals = new Map<string, TeeSummary>();
+
+        for (const path of groups) {
+          for (let i = 0; i < path.length; i++) {
+            const row = path[i];
+            if (row.item !== "tee_main") continue;
+            if ((row.junction ?? "tee") !== section.junction) continue;
+
+            let mainEnter = typeof path[i - 1]?.d === "number" ? path[i - 1]!.d! : 0;
+            let mainExit = typeof row.d === "number" ? row.d : 0;
+            let sideExit = typeof row.d90 === "number" ? row.d90 : 0;
+
+            if (!mainEnter) mainEnter = mainExit;
+            if (!mainExit) mainExit = mainEnter;
+            if (!sideExit) sideExit = mainExit;
+
+            if (!mainEnter || !mainExit || !sideExit) continue;
+
+            const key = `${mainEnter}|${mainExit}|${sideExit}`;
+            const existing = teeTotals.get(key);
+            if (existing) {
+              existing.count += 1;
+            } else {
+              teeTotals.set(key, { mainEnter, mainExit, sideExit, count: 1 });
+            }
+          }
+        }
 
-        const key = `${mainEnter}|${mainExit}|${sideExit}`;
-        const existing = teeTotals.get(key);
-        if (existing) {
-          existing.count += 1;
-        } else {
-          teeTotals.set(key, { mainEnter, mainExit, sideExit, count: 1 });
+        if (teeTotals.size > 0) {
+          sheetData.push([section.title]);
+          sheetData.push([
+            `${section.prefix}_main enter d[${unitOf("diameter")}]`,
+            `${section.prefix}_main exit d[${unitOf("diameter")}]`,
+            `${section.prefix}_side exit d[${unitOf("diameter")}]`,
+            "Qty",
+          ]);
+          Array.from(teeTotals.values())
+            .sort((a, b) =>
+              a.mainEnter - b.mainEnter ||
+              a.mainExit - b.mainExit ||
+              a.sideExit - b.sideExit
+            )
+            .forEach(({ mainEnter, mainExit, sideExit, count }) => {
+              sheetData.push([dOut(mainEnter), dOut(mainExit), dOut(sideExit), count]);
+            });
+          sheetData.push([]);
         }
       }
-    }
 
-    if (teeTotals.size > 0) {
-      sheetData.push(["Tees"]);
-      sheetData.push([
-        "Tee_main enter d[mm]",
-        "Tee_main exit d[mm]",
-        "Tee_side exit d[mm]",
-        "Qty",
-      ]);
-      Array.from(teeTotals.values())
-        .sort((a, b) =>
-          a.mainEnter - b.mainEnter ||
-          a.mainExit - b.mainExit ||
-          a.sideExit - b.sideExit
-        )
-        .forEach(({ mainEnter, mainExit, sideExit, count }) => {
-          sheetData.push([mainEnter, mainExit, sideExit, count]);
-        });
-      sheetData.push([]);
-    }
+      return sheetData;
+    };
 
-    const worksheet = XLSXUtils.aoa_to_sheet(sheetData);
+    // One sheet per system when the canvas has several discharges.
     const workbook = XLSXUtils.book_new();
-    XLSXUtils.book_append_sheet(workbook, worksheet, "Quantities");
+    if (systems.length > 1) {
+      for (const system of systems) {
+        const groups = system.paths.map((idx) => equationRowGroups[idx]);
+        XLSXUtils.book_append_sheet(
+          workbook,
+          XLSXUtils.aoa_to_sheet(buildQuantitiesSheet(groups)),
+          uniqueSheetName(workbook.SheetNames, system.name)
+        );
+      }
+    } else {
+      XLSXUtils.book_append_sheet(
+        workbook,
+        XLSXUtils.aoa_to_sheet(buildQuantitiesSheet(equationRowGroups)),
+        "Quantities"
+      );
+    }
+
+    XLSXUtils.book_append_sheet(
+      workbook,
+      XLSXUtils.aoa_to_sheet(buildDesignBasisSheet()),
+      uniqueSheetName(workbook.SheetNames, "Design basis")
+    );
 
     const baseName = fileName || "canvas";
     writeXLSXFile(workbook, `${baseName}-quantities.xlsx`);
@@ -2996,6 +3573,19 @@ export default function IsometricCanvas() {
         exportCtx.restore();
       }
 
+      // Friction model the labelled results were calculated with.
+      exportCtx.save();
+      exportCtx.fillStyle = "#000";
+      exportCtx.textAlign = "left";
+      exportCtx.textBaseline = "bottom";
+      exportCtx.font = `${9 * scale}px sans-serif`;
+      exportCtx.fillText(
+        `Friction: ${FRICTION_MODEL_LABELS[frictionModel]}`,
+        4 * scale,
+        exportCanvas.height - 4 * scale
+      );
+      exportCtx.restore();
+
       // Post-process: convert to black-on-white linework, removing grid and colors.
       const imageData = exportCtx.getImageData(0, 0, exportCanvas.width, exportCanvas.height);
       const data = imageData.data;
@@ -3092,6 +3682,134 @@ export default function IsometricCanvas() {
     setCalculateOpen(true);
   };
 
+  // Any edit to the drawing invalidates a previously solved distribution,
+  // sensitivity run, scenario results and priming simulation.
+  useEffect(() => {
+    setFlowSolution(null);
+    setSensitivity(null);
+    setScenarioResults(null);
+    setPriming(null);
+  }, [nodes, edges]);
+
+  const handleSolveFlows = () => {
+    setSolverMessage(null);
+    if (typeof solverHead !== "number" || solverHead <= 0) {
+      setFlowSolution(null);
+      setSolverMessage("Enter a positive available head to solve outlet flows.");
+      return;
+    }
+
+    const solution = solveFlowsFromComponents(
+      canvasJson.components,
+      { availableHead: solverHead, project: projectSettings }
+    );
+    if (!solution || !solution.outlets.length) {
+      setFlowSolution(null);
+      setSolverMessage("No outlet paths to solve.");
+      return;
+    }
+    setFlowSolution(solution);
+  };
+
+  const handleRunSensitivity = () => {
+    setSensitivityMessage(null);
+    setSensitivityRunning(true);
+    // Let the dialog paint "Running…" before the runs block the main thread.
+    setTimeout(() => {
+      const result = analyzeSensitivityFromComponents(canvasJson.components, {
+        ranges: sensitivityRanges,
+        project: projectSettings,
+      });
+      setSensitivityRunning(false);
+      if (!result || !result.entries.length) {
+        setSensitivity(null);
+        setSensitivityMessage("No pipes, outlets or fittings to vary.");
+        return;
+      }
+      setSensitivity(result);
+    }, 0);
+  };
+
+  const updateScenario = (index: number, update: (s: Scenario) => Scenario) => {
+    setScenarios((prev) => prev.map((s, i) => (i === index ? update(s) : s)));
+    setScenarioResults(null);
+  };
+
+  // Set an outlet's state in a scenario: "design", "blocked", or a capacity
+  // factor for a partial storm.
+  const setScenarioOutlet = (
+    index: number,
+    outletId: number,
+    state: "design" | "blocked" | number
+  ) => {
+    updateScenario(index, (s) => {
+      const blocked = s.blocked.filter((id) => id !== outletId);
+      const { [outletId]: _, ...factors } = s.factors;
+      if (state === "blocked") blocked.push(outletId);
+      if (typeof state === "number") factors[outletId] = state;
+      return { ...s, blocked, factors };
+    });
+  };
+
+  const handleRunScenarios = () => {
+    const results = runScenariosFromComponents(canvasJson.components, scenarios, {
+      project: projectSettings,
+      minPressure: pressureLimitM,
+      availableHead:
+        typeof solverHead === "number" && solverHead > 0 ? solverHead : undefined,
+    });
+    setScenarioResults(results.length ? results : null);
+  };
+
+  const handleSimulatePriming = () => {
+    setPrimingMessage(null);
+    const result = simulatePrimingFromComponents(canvasJson.components, {
+      hyetograph: rampHyetograph(designIntensity, primingRamp),
+      designIntensity,
+      primingLimit,
+      project: projectSettings,
+    });
+    if (!result || !result.outlets.length) {
+      setPriming(null);
+      setPrimingMessage("No outlets to simulate.");
+      return;
+    }
+    setPriming(result);
+  };
+
+  const handleAutoSize = () => {
+    setSizingMessage(null);
+    setSizingSummary(null);
+
+    const result = autoSizeFromComponents(canvasJson.components, {
+      imbalanceTolerance: sizingTolerance,
+      minPressure: pressureLimitM,
+      project: projectSettings,
+    });
+    if (!result) {
+      setSizingMessage("Nothing to size.");
+      return;
+    }
+    if (!result.feasible) {
+      setSizingMessage(
+        "No catalog sizing meets the imbalance and pressure limits; diameters were left unchanged."
+      );
+      return;
+    }
+
+    // Apply every new diameter in one update so a single undo restores the
+    // previous sizing.
+    saveSnapshotForUndo();
+    setEdges((prevEdges) =>
+      prevEdges.map((edge) =>
+        result.diameters.has(edge.id)
+          ? { ...edge, diameter: result.diameters.get(edge.id) }
+          : edge
+      )
+    );
+    setSizingSummary(result);
+  };
+
   const handleDoneCalculate = () => {
     saveSnapshotForUndo();
     setEdges((prevEdges) => {
@@ -3152,53 +3870,185 @@ export default function IsometricCanvas() {
     );
   };
 
-  const handleEdgeDiameterChange = (edgeId: number, diameter: number | undefined) => {
-    // If multiple pipes (edges) are selected and no nodes are selected, changing
-    // the diameter in the popover for one of them should update all selected
-    // pipes at once.
-    const hasPipeMultiSelectionOnly =
-      multiSelectedEdgeIds.length > 0 && multiSelectedNodeIds.length === 0;
-
-    const targetEdgeIds = hasPipeMultiSelectionOnly
-      ? Array.from(new Set([...multiSelectedEdgeIds, edgeId]))
-      : [edgeId];
-
+  // Catchment edits re-derive the outlet's capacity from the design storm.
+  const handleNodeCatchmentChange = (
+    nodeId: number,
+    patch: Pick<Node, "catchmentArea" | "runoffCoefficient" | "capacityOverride">
+  ) => {
     saveSnapshotForUndo();
-    setEdges((prev) =>
-      prev.map((edge) =>
-        targetEdgeIds.includes(edge.id)
-          ? { ...edge, diameter }
-          : edge
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId
+          ? applyDesignRainfall([{ ...node, ...patch }], designIntensity)[0]
+          : node
       )
     );
   };
 
-  const handleEdgeLengthChange = (edgeId: number, length: number | undefined) => {
-    // Same behavior as diameter: in a pure pipe multi-selection, edits apply to
-    // all selected pipes so they stay in sync.
-    const hasPipeMultiSelectionOnly =
-      multiSelectedEdgeIds.length > 0 && multiSelectedNodeIds.length === 0;
-
-    const targetEdgeIds = hasPipeMultiSelectionOnly
-      ? Array.from(new Set([...multiSelectedEdgeIds, edgeId]))
-      : [edgeId];
-
+  // A new design storm recomputes every outlet with a catchment area.
+  const handleDesignStormChange = (storm: DesignStorm) => {
     saveSnapshotForUndo();
-    setEdges((prev) =>
-      prev.map((edge) =>
-        targetEdgeIds.includes(edge.id)
-          ? { ...edge, length }
-          : edge
-      )
+    setDesignStorm(storm);
+    setNodes((prev) =>
+      applyDesignRainfall(prev, resolveDesignIntensity(storm, idfTableFor(storm)))
     );
   };
 
-  // Screen-space labels for outlet capacities (HTML overlay above WebGL symbols)
-  // Outlet numbering should follow the same per-outlet ordering that the
-  // calculations layer uses (equationRowGroups). This ensures that "Outlet 1"
-  // in the UI matches "Outlet 1" in the calculation table/exports and that
-  // any tee/length-based ordering logic is centralized in Calculations.
-  const outletCapacityLabels = useMemo(
+  // Read an IDF table from the first sheet of a CSV/XLSX file, add it to the
+  // project (replacing one with the same name) and design with it.
+  const handleImportIdfTable = async (file: File) => {
+    try {
+      const workbook = readXLSX(await file.arrayBuffer(), { type: "array" });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSXUtils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true });
+      const table = parseIdfTable(rows, file.name.replace(/\.[^.]+$/, ""));
+
+      setIdfTables((prev) => [...prev.filter((t) => t.name !== table.name), table]);
+      const storm: DesignStorm = {
+        ...(designStorm.mode === "idf" ? designStorm : DEFAULT_DESIGN_STORM),
+        table: table.name,
+      };
+      saveSnapshotForUndo();
+      setDesignStorm(storm);
+      setNodes((prev) => applyDesignRainfall(prev, resolveDesignIntensity(storm, table)));
+    } catch (error) {
+      console.error("Error importing IDF table", error);
+      alert(
+        `Could not import IDF table: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  const handleNodeElevationChange = (nodeId: number, elevation: number | undefined) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, elevation } : node
+      )
+    );
+  };
+
+  const handleNodeFittingChange = (nodeId: number, fitting: string | undefined) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, fitting } : node
+      )
+    );
+  };
+
+  const handleNodeProductChange = (nodeId: number, product: string | undefined) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, product } : node
+      )
+    );
+  };
+
+  const handleNodeDischargeChange = (
+    nodeId: number,
+    discharge: DischargeConfig | undefined
+  ) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, discharge } : node
+      )
+    );
+  };
+
+  const handleNodeNameChange = (nodeId: number, name: string | undefined) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, name } : node
+      )
+    );
+  };
+
+  const handleNodeBranchAngleChange = (nodeId: number, branchAngle: number) => {
+    saveSnapshotForUndo();
+    setNodes((prev) =>
+      prev.map((node) =>
+        node.id === nodeId ? { ...node, branchAngle } : node
+      )
+    );
+  };
+
+  const handleEdgeDiameterChange = (edgeId: number, diameter: number | undefined) => {
+    // If multiple pipes (edges) are selected and no nodes are selected, changing
+    // the diameter in the popover for one of them should update all selected
+    // pipes at once.
+    const hasPipeMultiSelectionOnly =
+      multiSelectedEdgeIds.length > 0 && multiSelectedNodeIds.length === 0;
+
+    const targetEdgeIds = hasPipeMultiSelectionOnly
+      ? Array.from(new Set([...multiSelectedEdgeIds, edgeId]))
+      : [edgeId];
+
+    saveSnapshotForUndo();
+    setEdges((prev) =>
+      prev.map((edge) =>
+        targetEdgeIds.includes(edge.id)
+          ? {
+              ...edge,
+              // Store the exact catalog size when a converted value matches one.
+              diameter:
+                diameter === undefined
+                  ? undefined
+                  : snapToCatalog(edge.material ?? projectMaterial, diameter),
+            }
+          : edge
+      )
+    );
+  };
+
+  const handleEdgeMaterialChange = (edgeId: number, material: string | undefined) => {
+    // Same multi-selection behaviour as diameter and length.
+    const hasPipeMultiSelectionOnly =
+      multiSelectedEdgeIds.length > 0 && multiSelectedNodeIds.length === 0;
+
+    const targetEdgeIds = hasPipeMultiSelectionOnly
+      ? Array.from(new Set([...multiSelectedEdgeIds, edgeId]))
+      : [edgeId];
+
+    saveSnapshotForUndo();
+    setEdges((prev) =>
+      prev.map((edge) =>
+        targetEdgeIds.includes(edge.id)
+          ? { ...edge, material }
+          : edge
+      )
+    );
+  };
+
+  const handleEdgeLengthChange = (edgeId: number, length: number | undefined) => {
+    // Same behavior as diameter: in a pure pipe multi-selection, edits apply to
+    // all selected pipes so they stay in sync.
+    const hasPipeMultiSelectionOnly =
+      multiSelectedEdgeIds.length > 0 && multiSelectedNodeIds.length === 0;
+
+    const targetEdgeIds = hasPipeMultiSelectionOnly
+      ? Array.from(new Set([...multiSelectedEdgeIds, edgeId]))
+      : [edgeId];
+
+    saveSnapshotForUndo();
+    setEdges((prev) =>
+      prev.map((edge) =>
+        targetEdgeIds.includes(edge.id)
+          ? { ...edge, length }
+          : edge
+      )
+    );
+  };
+
+  // Screen-space labels for outlet capacities (HTML overlay above WebGL symbols)
+  // Outlet numbering should follow the same per-outlet ordering that the
+  // calculations layer uses (equationRowGroups). This ensures that "Outlet 1"
+  // in the UI matches "Outlet 1" in the calculation table/exports and that
+  // any tee/length-based ordering logic is centralized in Calculations.
+  const outletCapacityLabels = useMemo(
     () => {
       const canvas = canvasRef.current;
       if (!canvas) return [] as { id: number; x: number; y: number; text: string }[];
@@ -3248,10 +4098,8 @@ export default function IsometricCanvas() {
         const labelY = screen.y - 14; // px offset upwards
 
         const outletNo = outletIndexById.get(node.id);
-        const text =
-          outletNo != null
-            ? `${outletNo}: ${node.capacity} L/s`
-            : `${node.capacity} L/s`;
+        const capacity = `${inputOf("flow", node.capacity)} ${unitOf("flow")}`;
+        const text = outletNo != null ? `${outletNo}: ${capacity}` : capacity;
 
         labels.push({
           id: node.id,
@@ -3263,7 +4111,7 @@ export default function IsometricCanvas() {
 
       return labels;
     },
-    [nodes, offset, zoom, canonicalOrder]
+    [nodes, offset, zoom, canonicalOrder, unitSystem]
   );
 
   // Screen-space labels for pipe drawing indices (component numbers) placed
@@ -3355,6 +4203,28 @@ export default function IsometricCanvas() {
     setSelectedEdgeId(null);
   };
 
+  // Collapsible list of the engine's calculation steps for one row. Values
+  // are shown in engine units, as the formulas expect.
+  const renderWorking = (row: EquationRow) =>
+    row.working && row.working.length > 0 ? (
+      <details className="pt-1">
+        <summary className="cursor-pointer text-[10px] font-medium">
+          Show working ({row.working.length} steps, SI)
+        </summary>
+        <div className="mt-1 space-y-1">
+          {row.working.map((step, i) => (
+            <div key={i} className="rounded border px-1.5 py-0.5 text-[10px]">
+              <div className="font-mono">{formatWorkingStep(step, 4)}</div>
+              {Object.keys(step.inputs).length > 0 && (
+                <div className="text-muted-foreground">{formatWorkingInputs(step, 4)}</div>
+              )}
+              {step.note && <div className="text-muted-foreground italic">{step.note}</div>}
+            </div>
+          ))}
+        </div>
+      </details>
+    ) : null;
+
   const renderPopoverBody = () => {
     if (multiPipeIds) {
       return (
@@ -3393,32 +4263,32 @@ export default function IsometricCanvas() {
                     </div>
                   </div>
                   <div className="space-y-1 pt-1">
-                    <div className="text-xs font-medium">Length</div>
+                    <div className="text-xs font-medium">Length [{unitOf("length")}]</div>
                     <input
                       type="number"
                       className="w-full rounded border px-2 py-1 text-[11px]"
-                      value={edge.length ?? ""}
+                      value={inputOf("length", edge.length)}
                       onChange={(e) => {
                         const value = e.target.value;
                         const num =
                           value === "" ? undefined : Number(value);
                         if (Number.isNaN(num)) return;
-                        handleEdgeLengthChange(edge.id, num);
+                        handleEdgeLengthChange(edge.id, fromInput("length", num));
                       }}
                     />
                   </div>
                   <div className="space-y-1">
-                    <div className="text-xs font-medium">Diameter</div>
+                    <div className="text-xs font-medium">Diameter [{unitOf("diameter")}]</div>
                     <input
                       type="number"
                       className="w-full rounded border px-2 py-1 text-[11px]"
-                      value={edge.diameter ?? ""}
+                      value={inputOf("diameter", edge.diameter)}
                       onChange={(e) => {
                         const value = e.target.value;
                         const num =
                           value === "" ? undefined : Number(value);
                         if (Number.isNaN(num)) return;
-                        handleEdgeDiameterChange(edge.id, num);
+                        handleEdgeDiameterChange(edge.id, fromInput("diameter", num));
                       }}
                     />
                   </div>
@@ -3426,20 +4296,21 @@ export default function IsometricCanvas() {
                     <div className="space-y-0.5 border-t pt-2 mt-1">
                       <div className="text-xs font-medium">Hydraulics</div>
                       <div className="text-[10px] text-muted-foreground truncate">
-                        Capacity: {typeof row.Q === "number" ? `${row.Q.toFixed(3)} L/s` : "-"}
+                        Capacity: {typeof row.Q === "number" ? fmt("flow", row.Q) : "-"}
                       </div>
                       <div className="text-[10px] text-muted-foreground truncate">
-                        Velocity: {typeof row.V === "number" ? row.V.toFixed(3) : "-"} m/s
+                        Velocity: {typeof row.V === "number" ? fmt("velocity", row.V) : "-"}
                       </div>
                       <div className="text-[10px] text-muted-foreground truncate">
-                        Pressure: {typeof row.delta_P === "number" ? row.delta_P : "-"}
+                        Pressure: {typeof row.delta_P === "number" ? fmt("pressure", row.delta_P) : "-"}
                       </div>
                       <div className="text-[10px] text-muted-foreground truncate">
-                        Head loss: {typeof row.delta_H === "number" ? row.delta_H.toFixed(3) : "-"} m
+                        Head loss: {typeof row.delta_H === "number" ? fmt("head", row.delta_H) : "-"}
                       </div>
                       <div className="text-[10px] text-muted-foreground truncate">
                         Vertical: {isVerticalEdge(edge) ? "Yes" : "No"}
                       </div>
+                      {renderWorking(row)}
                     </div>
                   )}
                 </div>
@@ -3483,7 +4354,8 @@ export default function IsometricCanvas() {
                       {row.item} (index {row.index})
                     </div>
                     <div className="text-[10px] text-muted-foreground whitespace-nowrap">
-                      d: {typeof row.d === "number" ? row.d : "-"} · L: {typeof row.L === "number" ? row.L : "-"}
+                      d: {typeof row.d === "number" ? fmt("diameter", row.d, 1) : "-"} · L:{" "}
+                      {typeof row.L === "number" ? fmt("length", row.L, 2) : "-"}
                     </div>
                   </div>
                 ))}
@@ -3539,36 +4411,282 @@ export default function IsometricCanvas() {
             </div>
             {selectedNode.type === "outlet" && (
               <div className="space-y-1">
-                <div className="text-xs font-medium">Capacity</div>
+                <div className="text-xs font-medium">Capacity [{unitOf("flow")}]</div>
+                <input
+                  type="number"
+                  className="w-full rounded border px-2 py-1 text-xs disabled:bg-gray-100"
+                  disabled={hasDerivedCapacity(selectedNode)}
+                  value={inputOf("flow", selectedNode.capacity)}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    const num =
+                      value === "" ? undefined : Number(value);
+                    if (Number.isNaN(num)) return;
+                    handleNodeCapacityChange(selectedNode.id, fromInput("flow", num));
+                  }}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="space-y-1">
+                    <div className="text-xs font-medium">Catchment [{unitOf("area")}]</div>
+                    <input
+                      type="number"
+                      className="w-full rounded border px-2 py-1 text-xs"
+                      value={inputOf("area", selectedNode.catchmentArea)}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        const num =
+                          value === "" ? undefined : Number(value);
+                        if (Number.isNaN(num)) return;
+                        handleNodeCatchmentChange(selectedNode.id, {
+                          catchmentArea: fromInput("area", num),
+                        });
+                      }}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <div className="text-xs font-medium">Runoff coeff. C</div>
+                    <input
+                      type="number"
+                      step="0.05"
+                      className="w-full rounded border px-2 py-1 text-xs"
+                      placeholder={String(DEFAULT_RUNOFF_COEFFICIENT)}
+                      value={selectedNode.runoffCoefficient ?? ""}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        const num =
+                          value === "" ? undefined : Number(value);
+                        if (Number.isNaN(num)) return;
+                        handleNodeCatchmentChange(selectedNode.id, {
+                          runoffCoefficient: num,
+                        });
+                      }}
+                    />
+                  </label>
+                </div>
+                {typeof selectedNode.catchmentArea === "number" && (
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={!!selectedNode.capacityOverride}
+                      onChange={(e) =>
+                        handleNodeCatchmentChange(selectedNode.id, {
+                          capacityOverride: e.target.checked || undefined,
+                        })
+                      }
+                    />
+                    <span>Override derived capacity (C·i·A)</span>
+                  </label>
+                )}
+                <div className="text-xs font-medium">Product</div>
+                <select
+                  className="w-full rounded border px-2 py-1 text-xs"
+                  value={selectedNode.product ?? ""}
+                  onChange={(e) =>
+                    handleNodeProductChange(
+                      selectedNode.id,
+                      e.target.value === "" ? undefined : e.target.value,
+                    )
+                  }
+                >
+                  <option value="">None (fitting K)</option>
+                  {OUTLET_PRODUCTS.map((p) => (
+                    <option key={p.key} value={p.key}>
+                      {p.name} (max {fmt("flow", p.maxCapacity, 1)}, K {p.k})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {selectedNode.type === "discharge" && (
+              <div className="space-y-1">
+                <div className="text-xs font-medium">System name</div>
+                <input
+                  type="text"
+                  className="w-full rounded border px-2 py-1 text-xs"
+                  placeholder={
+                    systems.find((sys) => {
+                      const idx = componentIndexMap.get(`node:${selectedNode.id}`);
+                      return idx != null && sys.dischargeIndex === idx;
+                    })?.name ?? "System"
+                  }
+                  value={selectedNode.name ?? ""}
+                  onChange={(e) =>
+                    handleNodeNameChange(
+                      selectedNode.id,
+                      e.target.value === "" ? undefined : e.target.value,
+                    )
+                  }
+                />
+                <div className="text-xs font-medium">Transition</div>
+                <select
+                  className="w-full rounded border px-2 py-1 text-xs"
+                  value={selectedNode.discharge?.transition ?? ""}
+                  onChange={(e) =>
+                    handleNodeDischargeChange(
+                      selectedNode.id,
+                      e.target.value === ""
+                        ? undefined
+                        : {
+                            ...selectedNode.discharge,
+                            transition: e.target.value as DischargeTransition,
+                          },
+                    )
+                  }
+                >
+                  <option value="">None (fitting K)</option>
+                  {(Object.keys(DISCHARGE_TRANSITION_LABELS) as DischargeTransition[]).map(
+                    (t) => (
+                      <option key={t} value={t}>
+                        {DISCHARGE_TRANSITION_LABELS[t]}
+                      </option>
+                    )
+                  )}
+                </select>
+                {selectedNode.discharge && selectedNode.discharge.transition !== "free" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {selectedNode.discharge.transition === "expansion" && (
+                      <label className="space-y-1">
+                        <div className="text-xs font-medium">
+                          Gravity pipe di [{unitOf("diameter")}]
+                        </div>
+                        <input
+                          type="number"
+                          className="w-full rounded border px-2 py-1 text-xs"
+                          value={inputOf("diameter", selectedNode.discharge.gravityDiameter)}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            const num =
+                              value === "" ? undefined : Number(value);
+                            if (Number.isNaN(num)) return;
+                            handleNodeDischargeChange(selectedNode.id, {
+                              ...selectedNode.discharge!,
+                              gravityDiameter: fromInput("diameter", num),
+                            });
+                          }}
+                        />
+                      </label>
+                    )}
+                    <label className="space-y-1">
+                      <div className="text-xs font-medium">Tailwater [{unitOf("head")}]</div>
+                      <input
+                        type="number"
+                        className="w-full rounded border px-2 py-1 text-xs"
+                        value={inputOf("head", selectedNode.discharge.tailwater)}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          const num =
+                            value === "" ? undefined : Number(value);
+                          if (Number.isNaN(num)) return;
+                          handleNodeDischargeChange(selectedNode.id, {
+                            ...selectedNode.discharge!,
+                            tailwater: fromInput("head", num),
+                          });
+                        }}
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+            {(selectedNode.type === "outlet" || selectedNode.type === "discharge") && (
+              <div className="space-y-1">
+                <div className="text-xs font-medium">Elevation [{unitOf("length")}]</div>
                 <input
                   type="number"
                   className="w-full rounded border px-2 py-1 text-xs"
-                  value={selectedNode.capacity ?? ""}
+                  placeholder={
+                    selectedNode.type === "outlet"
+                      ? roofLevel != null ? `Roof level (${inputOf("length", roofLevel)})` : "Roof level"
+                      : dischargeLevel != null ? `Discharge level (${inputOf("length", dischargeLevel)})` : "Discharge level"
+                  }
+                  value={inputOf("length", selectedNode.elevation)}
                   onChange={(e) => {
                     const value = e.target.value;
                     const num =
                       value === "" ? undefined : Number(value);
                     if (Number.isNaN(num)) return;
-                    handleNodeCapacityChange(selectedNode.id, num);
+                    handleNodeElevationChange(selectedNode.id, fromInput("length", num));
                   }}
                 />
               </div>
             )}
+            {(() => {
+              const kind = fittingKindOf(selectedNode.type);
+              if (!kind) return null;
+              const projectKey = projectFittings[kind] ?? DEFAULT_FITTINGS[kind];
+              const projectName =
+                FITTING_LIBRARY.find((f) => f.key === projectKey)?.name ?? projectKey;
+              return (
+                <div className="space-y-1">
+                  <div className="text-xs font-medium">Fitting</div>
+                  <select
+                    className="w-full rounded border px-2 py-1 text-xs"
+                    value={selectedNode.fitting ?? ""}
+                    onChange={(e) =>
+                      handleNodeFittingChange(
+                        selectedNode.id,
+                        e.target.value === "" ? undefined : e.target.value,
+                      )
+                    }
+                  >
+                    <option value="">Project default ({projectName})</option>
+                    {FITTING_LIBRARY.filter((f) => f.kind === kind).map((f) => (
+                      <option key={f.key} value={f.key}>
+                        {f.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })()}
+            {(selectedNode.type === "tee" || selectedNode.type === "yvalve") && (
+              <button
+                type="button"
+                onClick={() =>
+                  handleNodeTypeChange(
+                    selectedNode.id,
+                    selectedNode.type === "tee" ? "yvalve" : "tee",
+                  )
+                }
+                className="w-full rounded border border-black bg-white px-2 py-1 text-[11px]"
+              >
+                {selectedNode.type === "tee" ? "Convert to Y-valve" : "Convert to tee"}
+              </button>
+            )}
+            {selectedNode.type === "tee" && (
+              <div className="space-y-1">
+                <div className="text-xs font-medium">Branch angle</div>
+                <select
+                  className="w-full rounded border px-2 py-1 text-xs"
+                  value={selectedNode.branchAngle ?? DEFAULT_BRANCH_ANGLE}
+                  onChange={(e) =>
+                    handleNodeBranchAngleChange(
+                      selectedNode.id,
+                      Number(e.target.value),
+                    )
+                  }
+                >
+                  <option value={45}>45°</option>
+                  <option value={90}>90°</option>
+                </select>
+              </div>
+            )}
             {selectedNodeRow && (
               <div className="space-y-0.5 border-t pt-2 mt-2">
                 <div className="text-xs font-medium">Hydraulics</div>
                 <div className="text-[10px] text-muted-foreground">
-                  Capacity: {typeof selectedNodeRow.Q === "number" ? `${selectedNodeRow.Q.toFixed(3)} L/s` : "-"}
+                  Capacity: {typeof selectedNodeRow.Q === "number" ? fmt("flow", selectedNodeRow.Q) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Velocity: {typeof selectedNodeRow.V === "number" ? selectedNodeRow.V.toFixed(3) : "-"} m/s
+                  Velocity: {typeof selectedNodeRow.V === "number" ? fmt("velocity", selectedNodeRow.V) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Pressure: {typeof selectedNodeRow.delta_P === "number" ? selectedNodeRow.delta_P : "-"}
+                  Pressure: {typeof selectedNodeRow.delta_P === "number" ? fmt("pressure", selectedNodeRow.delta_P) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Head loss: {typeof selectedNodeRow.delta_H === "number" ? selectedNodeRow.delta_H.toFixed(3) : "-"} m
+                  Head loss: {typeof selectedNodeRow.delta_H === "number" ? fmt("head", selectedNodeRow.delta_H) : "-"}
                 </div>
+                {renderWorking(selectedNodeRow)}
               </div>
             )}
             <div className="pt-2 mt-2 border-t flex justify-end">
@@ -3607,51 +4725,74 @@ export default function IsometricCanvas() {
                 )}
             </div>
             <div className="space-y-1 pt-1">
-              <div className="text-xs font-medium">Length</div>
+              <div className="text-xs font-medium">Length [{unitOf("length")}]</div>
               <input
                 type="number"
                 className="w-full rounded border px-2 py-1 text-xs"
-                value={selectedEdge.length ?? ""}
+                value={inputOf("length", selectedEdge.length)}
                 onChange={(e) => {
                   const value = e.target.value;
                   const num = value === "" ? undefined : Number(value);
                   if (Number.isNaN(num)) return;
-                  handleEdgeLengthChange(selectedEdge.id, num);
+                  handleEdgeLengthChange(selectedEdge.id, fromInput("length", num));
                 }}
               />
             </div>
             <div className="space-y-1">
-              <div className="text-xs font-medium">Diameter</div>
+              <div className="text-xs font-medium">Diameter [{unitOf("diameter")}]</div>
               <input
                 type="number"
                 className="w-full rounded border px-2 py-1 text-xs"
-                value={selectedEdge.diameter ?? ""}
+                value={inputOf("diameter", selectedEdge.diameter)}
                 onChange={(e) => {
                   const value = e.target.value;
                   const num = value === "" ? undefined : Number(value);
                   if (Number.isNaN(num)) return;
-                  handleEdgeDiameterChange(selectedEdge.id, num);
+                  handleEdgeDiameterChange(selectedEdge.id, fromInput("diameter", num));
                 }}
               />
             </div>
+            <div className="space-y-1">
+              <div className="text-xs font-medium">Material</div>
+              <select
+                className="w-full rounded border px-2 py-1 text-xs"
+                value={selectedEdge.material ?? ""}
+                onChange={(e) =>
+                  handleEdgeMaterialChange(
+                    selectedEdge.id,
+                    e.target.value === "" ? undefined : e.target.value,
+                  )
+                }
+              >
+                <option value="">
+                  Project default ({PIPE_MATERIALS.find((m) => m.key === projectMaterial)?.name ?? projectMaterial})
+                </option>
+                {PIPE_MATERIALS.map((m) => (
+                  <option key={m.key} value={m.key}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            </div>
             {selectedEdgeRow && (
               <div className="space-y-0.5 border-t pt-2 mt-2">
                 <div className="text-xs font-medium">Hydraulics</div>
                 <div className="text-[10px] text-muted-foreground">
-                  Capacity: {typeof selectedEdgeRow.Q === "number" ? `${selectedEdgeRow.Q.toFixed(3)} L/s` : "-"}
+                  Capacity: {typeof selectedEdgeRow.Q === "number" ? fmt("flow", selectedEdgeRow.Q) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Velocity: {typeof selectedEdgeRow.V === "number" ? selectedEdgeRow.V.toFixed(3) : "-"} m/s
+                  Velocity: {typeof selectedEdgeRow.V === "number" ? fmt("velocity", selectedEdgeRow.V) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Pressure: {typeof selectedEdgeRow.delta_P === "number" ? selectedEdgeRow.delta_P : "-"}
+                  Pressure: {typeof selectedEdgeRow.delta_P === "number" ? fmt("pressure", selectedEdgeRow.delta_P) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
-                  Head loss: {typeof selectedEdgeRow.delta_H === "number" ? selectedEdgeRow.delta_H.toFixed(3) : "-"} m
+                  Head loss: {typeof selectedEdgeRow.delta_H === "number" ? fmt("head", selectedEdgeRow.delta_H) : "-"}
                 </div>
                 <div className="text-[10px] text-muted-foreground">
                   Vertical: {isVerticalEdge(selectedEdge) ? "Yes" : "No"}
                 </div>
+                {renderWorking(selectedEdgeRow)}
               </div>
             )}
             <div className="pt-2 mt-2 border-t flex justify-end">
@@ -3719,6 +4860,52 @@ export default function IsometricCanvas() {
             </div>
           </div>
         </div>
+        {(topologyIssues.length > 0 || networkError) && (
+          <div className="w-64 rounded-md border border-black bg-white/90 px-3 py-1 text-[11px]">
+            <button
+              type="button"
+              onClick={() => setDiagnosticsOpen((open) => !open)}
+              className="flex w-full items-center justify-between"
+            >
+              <span className="font-semibold">
+                Diagnostics ({topologyIssues.length + (networkError ? 1 : 0)})
+              </span>
+              <span className="text-[10px]">{diagnosticsOpen ? "▴" : "▾"}</span>
+            </button>
+            {diagnosticsOpen && (
+              <div className="mt-1 max-h-60 space-y-1 overflow-auto pb-1 pr-1">
+                {networkError && (
+                  <div className="rounded border px-2 py-1 text-red-600">
+                    Calculation failed: {networkError}
+                  </div>
+                )}
+                {topologyIssues.map((issue, i) => (
+                  <button
+                    key={`${issue.code}:${issue.component ?? ""}:${issue.id ?? i}`}
+                    type="button"
+                    disabled={issue.id == null}
+                    onClick={() => {
+                      if (issue.id == null) return;
+                      if (issue.component === "node") {
+                        setSelectedNodeId(issue.id);
+                        setSelectedEdgeId(null);
+                      } else {
+                        setSelectedEdgeId(issue.id);
+                        setSelectedNodeId(null);
+                      }
+                      setPopoverOpen(true);
+                    }}
+                    className={`block w-full rounded border px-2 py-1 text-left hover:bg-gray-100 disabled:hover:bg-transparent ${
+                      issue.severity === "error" ? "text-red-600" : "text-amber-600"
+                    }`}
+                  >
+                    {issue.message}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Top-right horizontal menu bar + legend */}
@@ -3785,6 +4972,16 @@ export default function IsometricCanvas() {
                 >
                   Quantity
                 </button>
+                <button
+                  type="button"
+                  className="block w-full border-b border-black px-3 py-1 text-left hover:bg-gray-100 last:border-b-0"
+                  onClick={() => {
+                    setIsExportMenuOpen(false);
+                    handleExportTeeParity();
+                  }}
+                >
+                  Tee parity (reference grid)
+                </button>
                 <button
                   type="button"
                   className="block w-full border-b border-black px-3 py-1 text-left hover:bg-gray-100 last:border-b-0"
@@ -3864,7 +5061,7 @@ export default function IsometricCanvas() {
 
       {calculateOpen && (
         <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40">
-          <div className="w-[520px] max-w-full rounded-md border bg-white p-4">
+          <div className="w-[520px] max-w-full max-h-[90vh] overflow-auto rounded-md border bg-white p-4">
             <div className="mb-2 flex items-center justify-between">
               <div className="text-sm font-medium">Calculation</div>
               <button
@@ -3877,50 +5074,1151 @@ export default function IsometricCanvas() {
             </div>
 
             <div className="space-y-3 text-xs">
+              <div className="flex items-center gap-2 border-b pb-2">
+                <span className="font-medium">Units</span>
+                <select
+                  className="rounded border px-2 py-1 text-xs"
+                  value={unitSystem}
+                  onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+                >
+                  {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map((key) => (
+                    <option key={key} value={key}>
+                      {UNIT_SYSTEMS[key].name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2 border-b pb-2">
+                <span className="font-medium">Project material</span>
+                <select
+                  className="rounded border px-2 py-1 text-xs"
+                  value={projectMaterial}
+                  onChange={(e) => setProjectMaterial(e.target.value)}
+                >
+                  {PIPE_MATERIALS.map((m) => (
+                    <option key={m.key} value={m.key}>
+                      {m.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 border-b pb-2">
+                <span className="font-medium">Water temperature [°C]</span>
+                <input
+                  type="number"
+                  className="w-16 rounded border px-2 py-1 text-xs"
+                  value={waterTemperature}
+                  onChange={(e) => {
+                    const num = Number(e.target.value);
+                    if (e.target.value === "" || Number.isNaN(num)) return;
+                    setWaterTemperature(num);
+                  }}
+                />
+                <span className="text-muted-foreground">
+                  ρ {designFluid.density.toFixed(1)} kg/m³ · ν {(designFluid.viscosity * 1e6).toFixed(3)}·10⁻⁶ m²/s · p_v {fmt("pressureSetting", designFluid.vapourPressure, unitSystem === "si" ? 1 : 3)}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 border-b pb-2">
+                <span className="font-medium">Friction model</span>
+                <select
+                  className="rounded border px-2 py-1 text-xs"
+                  value={frictionModel}
+                  onChange={(e) => setFrictionModel(e.target.value as FrictionModel)}
+                >
+                  {(Object.keys(FRICTION_MODEL_LABELS) as FrictionModel[]).map((key) => (
+                    <option key={key} value={key}>
+                      {FRICTION_MODEL_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-muted-foreground">
+                  64/Re below Re {LAMINAR_RE}, interpolated up to Re {TURBULENT_RE}
+                </span>
+              </div>
+
+              <div className="space-y-1 border-b pb-2">
+                <div className="font-medium">Fittings</div>
+                <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+                  {(Object.keys(DEFAULT_FITTINGS) as FittingKind[]).map((kind) => (
+                    <label key={kind} className="flex items-center justify-between gap-2">
+                      <span className="text-muted-foreground">{kind}</span>
+                      <select
+                        className="w-40 rounded border px-1 py-0.5 text-xs"
+                        value={projectFittings[kind] ?? DEFAULT_FITTINGS[kind]}
+                        onChange={(e) =>
+                          setProjectFittings((prev) => ({
+                            ...prev,
+                            [kind]: e.target.value,
+                          }))
+                        }
+                      >
+                        {FITTING_LIBRARY.filter((f) => f.kind === kind).map((f) => (
+                          <option key={f.key} value={f.key}>
+                            {f.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1 border-b pb-2">
+                <div className="font-medium">Design rainfall</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="rounded border px-2 py-1 text-xs"
+                    value={designStorm.mode}
+                    onChange={(e) =>
+                      handleDesignStormChange(
+                        e.target.value === "direct"
+                          ? { mode: "direct", intensity: designIntensity }
+                          : DEFAULT_DESIGN_STORM
+                      )
+                    }
+                  >
+                    <option value="idf">Return period &amp; duration</option>
+                    <option value="direct">Intensity</option>
+                  </select>
+                  {designStorm.mode === "direct" ? (
+                    <>
+                      <input
+                        type="number"
+                        step="0.001"
+                        className="w-20 rounded border px-2 py-1 text-xs"
+                        value={inputOf("intensity", designStorm.intensity)}
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num)) return;
+                          handleDesignStormChange({
+                            mode: "direct",
+                            intensity: fromInput("intensity", num)!,
+                          });
+                        }}
+                      />
+                      <span className="text-muted-foreground">{unitOf("intensity")}</span>
+                    </>
+                  ) : (
+                    <>
+                      <select
+                        className="rounded border px-2 py-1 text-xs"
+                        value={designStorm.table ?? ""}
+                        onChange={(e) =>
+                          handleDesignStormChange({
+                            ...designStorm,
+                            table: e.target.value === "" ? undefined : e.target.value,
+                          })
+                        }
+                      >
+                        <option value="">{DEFAULT_IDF_TABLE.name}</option>
+                        {idfTables.map((t) => (
+                          <option key={t.name} value={t.name}>
+                            {t.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        className="w-16 rounded border px-2 py-1 text-xs"
+                        value={designStorm.returnPeriod}
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num) || num <= 0) return;
+                          handleDesignStormChange({ ...designStorm, returnPeriod: num });
+                        }}
+                      />
+                      <span className="text-muted-foreground">yr</span>
+                      <input
+                        type="number"
+                        className="w-16 rounded border px-2 py-1 text-xs"
+                        value={designStorm.duration}
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num) || num <= 0) return;
+                          handleDesignStormChange({ ...designStorm, duration: num });
+                        }}
+                      />
+                      <span className="text-muted-foreground">min</span>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => idfFileInputRef.current?.click()}
+                    className="rounded-md border px-2 py-1 text-xs"
+                  >
+                    Import IDF…
+                  </button>
+                  <input
+                    ref={idfFileInputRef}
+                    type="file"
+                    accept=".csv,.xlsx,.xls"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) void handleImportIdfTable(file);
+                    }}
+                  />
+                </div>
+                {designStorm.mode === "idf" && (
+                  <div className="text-muted-foreground">
+                    Table covers {activeIdfTable.returnPeriods[0]}–
+                    {activeIdfTable.returnPeriods[activeIdfTable.returnPeriods.length - 1]} yr,{" "}
+                    {activeIdfTable.durations[0]}–
+                    {activeIdfTable.durations[activeIdfTable.durations.length - 1]} min;
+                    values in between are interpolated.
+                  </div>
+                )}
+                <div className="text-muted-foreground">
+                  i = {fmt("intensity", designIntensity, unitSystem === "si" ? 4 : 2)}
+                  {unitSystem === "si" &&
+                    ` (${(designIntensity * MM_PER_HOUR_PER_LSM2).toFixed(0)} mm/h)`}{" "}
+                  ·{" "}
+                  {nodes.filter(hasDerivedCapacity).length} outlet(s) derived from
+                  catchment area
+                </div>
+              </div>
+
               <div className="border-b pb-2 mb-2">
                 <div className="font-medium mb-1">Global pressure range</div>
                 <div className="text-muted-foreground">
-                  <span>Max p: {pressureStats.maxP}</span>
+                  <span>Max p: {fmt("pressure", pressureStats.maxP)}</span>
                   {" · "}
-                  <span>Min p: {pressureStats.minP}</span>
+                  <span>Min p: {fmt("pressure", pressureStats.minP)}</span>
                 </div>
               </div>
 
               {pressureStats.outletSummaries.length === 0 ? (
                 <div className="text-muted-foreground">
                   No outlet paths found. Draw a discharge, pipes, and at least one outlet.
+                  {topologyIssues.length > 0 &&
+                    ` See Diagnostics for ${topologyIssues.length} drawing issue${
+                      topologyIssues.length === 1 ? "" : "s"
+                    }.`}
                 </div>
               ) : (
                 <div className="space-y-2">
                   <div className="font-medium">Per-outlet summaries</div>
-                  <div className="space-y-1 max-h-64 overflow-auto pr-1">
-                    {pressureStats.outletSummaries.map((s) => (
+                  {systemSummaries.map((sys) => (
+                    <div key={sys.system} className="space-y-1">
+                      {systemSummaries.length > 1 && (
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{sys.name}</span>
+                          <span className="text-muted-foreground">
+                            Max p: {fmt("pressure", sys.maxP)} · Min p:{" "}
+                            {fmt("pressure", sys.minP)}
+                          </span>
+                        </div>
+                      )}
+                      <div className="space-y-1 max-h-64 overflow-auto pr-1">
+                        {sys.summaries.map((s) => (
+                          <div
+                            key={s.outletIndex}
+                            className="rounded border px-2 py-1"
+                          >
+                            <div className="font-medium mb-0.5">
+                              Outlet path {s.outletIndex}
+                            </div>
+                            <div className="text-muted-foreground space-y-0.5">
+                              <div>
+                                Max p: {fmt("pressure", s.maxP)}
+                              </div>
+                              <div>
+                                Min p: {fmt("pressure", s.minP)}
+                              </div>
+                              <div>
+                                p(discharge) - p(outlet): {fmt("pressure", s.deltaP)}
+                              </div>
+                              <div>
+                                Σh along path: {fmt("head", s.sumH)}
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Pressure limit</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="rounded border px-2 py-1 text-xs"
+                    value={pressureLimit.mode}
+                    onChange={(e) =>
+                      setPressureLimit(
+                        e.target.value === "vapour"
+                          ? { mode: "vapour", temperature: waterTemperature }
+                          : { mode: "fixed", minMbar: DEFAULT_MIN_PRESSURE_MBAR }
+                      )
+                    }
+                  >
+                    <option value="fixed">Fixed minimum</option>
+                    <option value="vapour">Vapour pressure</option>
+                  </select>
+                  {pressureLimit.mode === "fixed" ? (
+                    <>
+                      <input
+                        type="number"
+                        className="w-20 rounded border px-2 py-1 text-xs"
+                        value={inputOf("pressureSetting", pressureLimit.minMbar)}
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num)) return;
+                          setPressureLimit({
+                            mode: "fixed",
+                            minMbar: fromDisplay(unitSystem, "pressureSetting", num),
+                          });
+                        }}
+                      />
+                      <span className="text-muted-foreground">{unitOf("pressureSetting")}</span>
+                    </>
+                  ) : (
+                    <>
+                      <input
+                        type="number"
+                        className="w-20 rounded border px-2 py-1 text-xs"
+                        value={pressureLimit.temperature}
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num)) return;
+                          setPressureLimit({ mode: "vapour", temperature: num });
+                        }}
+                      />
+                      <span className="text-muted-foreground">°C water</span>
+                    </>
+                  )}
+                  <span className="text-muted-foreground">
+                    = {fmt("pressure", pressureLimitM, 2)}
+                    {unitSystem === "si" &&
+                      ` (${fmt("pressureSetting", pressureLimitM * mbarPerMetre(designFluid), 0)})`}
+                  </span>
+                </div>
+                {pressureViolations.length === 0 ? (
+                  <div className="text-muted-foreground">
+                    No component is below the pressure limit.
+                  </div>
+                ) : (
+                  <div className="space-y-1 max-h-40 overflow-auto pr-1">
+                    {pressureViolations.map((v) => (
+                      <div
+                        key={`${v.pathIndex}:${v.item}:${v.index}`}
+                        className="rounded border px-2 py-1 text-red-600"
+                      >
+                        Outlet path {v.pathIndex} · {v.item} {v.index}: p ={" "}
+                        {fmt("pressure", v.delta_P)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Velocity checks</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {([
+                    ["minVelocity", "Min. V", "velocity"],
+                    ["maxDownpipeVelocity", "Max. downpipe V", "velocity"],
+                    ["minCollectorFroude", "Min. collector Fr", null],
+                  ] as const).map(([key, label, quantity]) => (
+                    <Fragment key={key}>
+                      <span className="text-muted-foreground">
+                        {quantity ? `${label} [${unitOf(quantity)}]` : label}
+                      </span>
+                      <input
+                        type="number"
+                        className="w-16 rounded border px-2 py-1 text-xs"
+                        value={
+                          quantity ? inputOf(quantity, velocityLimits[key]) : velocityLimits[key]
+                        }
+                        onChange={(e) => {
+                          const num = Number(e.target.value);
+                          if (e.target.value === "" || Number.isNaN(num)) return;
+                          const value = quantity ? fromInput(quantity, num)! : num;
+                          setVelocityLimits((prev) => ({ ...prev, [key]: value }));
+                        }}
+                      />
+                    </Fragment>
+                  ))}
+                </div>
+                {velocityViolations.length === 0 ? (
+                  <div className="text-muted-foreground">
+                    All pipes meet the velocity rules.
+                  </div>
+                ) : (
+                  <div className="space-y-1 max-h-40 overflow-auto pr-1">
+                    {velocityViolations.map((v) => (
+                      <div
+                        key={`${v.rule}:${v.index}`}
+                        className="rounded border px-2 py-1 text-red-600"
+                      >
+                        Pipe {v.index} · {VELOCITY_RULE_LABELS[v.rule]}:{" "}
+                        {v.rule === "collector_full"
+                          ? `${v.value.toFixed(2)} (limit ${v.threshold})`
+                          : `${fmt("velocity", v.value, 2)} (limit ${fmt("velocity", v.threshold, 2)})`}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Outlets</div>
+                {outletChecks.length === 0 ? (
+                  <div className="text-muted-foreground">No outlets drawn.</div>
+                ) : (
+                  outletChecks.map((c) => {
+                    const product = findOutletProduct(c.product);
+                    return (
                       <div
-                        key={s.outletIndex}
+                        key={c.drawIndex}
+                        className="flex items-center justify-between rounded border px-2 py-1"
+                      >
+                        <div>
+                          <div className="font-medium">
+                            Outlet {c.drawIndex}
+                            {product ? ` · ${product.name}` : " · no product"}
+                          </div>
+                          <div className="text-muted-foreground">
+                            Q {fmt("flow", c.capacity, 2)}
+                            {c.maxCapacity != null && ` (max ${fmt("flow", c.maxCapacity, 2)})`}
+                            {product &&
+                              (c.waterDepth != null
+                                ? ` · water depth ${fmt("depth", c.waterDepth, unitSystem === "si" ? 0 : 2)}`
+                                : " · beyond the product curve")}
+                          </div>
+                        </div>
+                        {product && (
+                          <span
+                            className={
+                              c.pass ? "font-medium text-green-700" : "font-medium text-red-600"
+                            }
+                          >
+                            {c.pass ? "Pass" : "Over max"}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+
+              {dischargeChecks.length > 0 && (
+                <div className="border-t pt-2 space-y-2">
+                  <div className="font-medium">Discharge transitions</div>
+                  {dischargeChecks.map((c) => (
+                    <div
+                      key={c.drawIndex}
+                      className="flex items-center justify-between rounded border px-2 py-1"
+                    >
+                      <div>
+                        <div className="font-medium">
+                          Discharge {c.drawIndex} · {DISCHARGE_TRANSITION_LABELS[c.transition]}
+                        </div>
+                        <div className="text-muted-foreground">
+                          K exit {c.exitK.toFixed(3)} · V {toDisplay(unitSystem, "velocity", c.velocity).toFixed(2)} →{" "}
+                          {fmt("velocity", c.downstreamVelocity, 2)}
+                          {c.maxVelocity !== undefined && ` (max ${fmt("velocity", c.maxVelocity, 2)})`}
+                          {c.tailwater > 0 && ` · tailwater ${fmt("head", c.tailwater, 2)}`}
+                        </div>
+                      </div>
+                      {c.pass !== undefined && (
+                        <span
+                          className={
+                            c.pass ? "font-medium text-green-700" : "font-medium text-red-600"
+                          }
+                        >
+                          {c.pass ? "Pass" : "Too fast"}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Available head</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">Roof level [{unitOf("length")}]</span>
+                  <input
+                    type="number"
+                    className="w-20 rounded border px-2 py-1 text-xs"
+                    value={inputOf("length", roofLevel)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      const num = value === "" ? undefined : Number(value);
+                      if (Number.isNaN(num)) return;
+                      setRoofLevel(fromInput("length", num));
+                    }}
+                  />
+                  <span className="text-muted-foreground">
+                    Discharge level [{unitOf("length")}]
+                  </span>
+                  <input
+                    type="number"
+                    className="w-20 rounded border px-2 py-1 text-xs"
+                    value={inputOf("length", dischargeLevel)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      const num = value === "" ? undefined : Number(value);
+                      if (Number.isNaN(num)) return;
+                      setDischargeLevel(fromInput("length", num));
+                    }}
+                  />
+                </div>
+                {headChecks.map((c) => (
+                  <div
+                    key={c.pathIndex}
+                    className="flex items-center justify-between rounded border px-2 py-1"
+                  >
+                    <div>
+                      <div className="font-medium">Outlet path {c.pathIndex}</div>
+                      <div className="text-muted-foreground">
+                        Available {fmt("head", c.availableHead)}
+                        {c.source === "geometry" && " (from vertical pipes)"}
+                        {c.tailwater > 0 && ` (after ${fmt("head", c.tailwater, 2)} tailwater)`}
+                        {" · "}Σh {fmt("head", c.headLoss)}
+                        {" · "}Residual {fmt("head", c.residualHead)}
+                      </div>
+                    </div>
+                    <span
+                      className={
+                        c.pass ? "font-medium text-green-700" : "font-medium text-red-600"
+                      }
+                    >
+                      {c.pass ? "Pass" : "Fail"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Path balance</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">
+                    Tolerance [{unitOf("pressureSetting")}]
+                  </span>
+                  <input
+                    type="number"
+                    className="w-20 rounded border px-2 py-1 text-xs"
+                    value={inputOf("pressureSetting", imbalanceTolerance.maxMbar)}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (e.target.value === "" || Number.isNaN(num)) return;
+                      setImbalanceTolerance((prev) => ({
+                        ...prev,
+                        maxMbar: fromDisplay(unitSystem, "pressureSetting", num),
+                      }));
+                    }}
+                  />
+                  <span className="text-muted-foreground">[%]</span>
+                  <input
+                    type="number"
+                    className="w-16 rounded border px-2 py-1 text-xs"
+                    value={imbalanceTolerance.maxPercent}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (e.target.value === "" || Number.isNaN(num)) return;
+                      setImbalanceTolerance((prev) => ({ ...prev, maxPercent: num }));
+                    }}
+                  />
+                </div>
+                {pathImbalance.length === 0 ? (
+                  <div className="text-muted-foreground">No outlet paths to compare.</div>
+                ) : (
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        {systems.length > 1 && <th className="pr-2">System</th>}
+                        <th className="pr-2">Path</th>
+                        <th className="pr-2">Residual [{unitOf("head")}]</th>
+                        <th className="pr-2">Difference [{unitOf("head")}]</th>
+                        <th className="pr-2">[{unitOf("pressureSetting")}]</th>
+                        <th className="pr-2">[%]</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pathImbalance.map((p) => (
+                        <tr key={p.pathIndex}>
+                          {systems.length > 1 && <td className="pr-2">{p.system}</td>}
+                          <td className="pr-2">{p.pathIndex}</td>
+                          <td className="pr-2">
+                            {toDisplay(unitSystem, "head", p.residualHead).toFixed(3)}
+                          </td>
+                          <td className="pr-2">
+                            {toDisplay(unitSystem, "head", p.difference).toFixed(3)}
+                          </td>
+                          <td className="pr-2">
+                            {toDisplay(unitSystem, "pressureSetting", p.differenceMbar).toFixed(
+                              unitSystem === "si" ? 0 : 3
+                            )}
+                          </td>
+                          <td className="pr-2">{p.differencePercent.toFixed(1)}</td>
+                          <td
+                            className={
+                              p.critical
+                                ? "font-medium"
+                                : p.pass
+                                ? "font-medium text-green-700"
+                                : "font-medium text-red-600"
+                            }
+                          >
+                            {p.critical ? "Critical" : p.pass ? "Pass" : "Out of tolerance"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Flow distribution</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">Available head [{unitOf("head")}]</span>
+                  <input
+                    type="number"
+                    className="w-24 rounded border px-2 py-1 text-xs"
+                    value={inputOf("head", solverHead)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      const num = value === "" ? undefined : Number(value);
+                      if (Number.isNaN(num)) return;
+                      setSolverHead(fromInput("head", num));
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSolveFlows}
+                    className="rounded border border-black bg-white px-2 py-0.5 text-[11px]"
+                  >
+                    Solve
+                  </button>
+                </div>
+                {solverMessage && (
+                  <div className="text-red-600">{solverMessage}</div>
+                )}
+                {flowSolution && (
+                  <div className="space-y-1">
+                    <div className="text-muted-foreground">
+                      {flowSolution.converged
+                        ? `Converged in ${flowSolution.iterations} iterations`
+                        : `Not converged after ${flowSolution.iterations} iterations`}
+                    </div>
+                    {flowSolution.outlets.map((o) => (
+                      <div
+                        key={o.pathIndex}
                         className="rounded border px-2 py-1"
                       >
                         <div className="font-medium mb-0.5">
-                          Outlet path {s.outletIndex}
+                          Outlet path {o.pathIndex}
                         </div>
                         <div className="text-muted-foreground space-y-0.5">
                           <div>
-                            Max p: {s.maxP}
+                            Design Q: {fmt("flow", o.designQ)} · Solved Q: {fmt("flow", o.solvedQ)}
                           </div>
                           <div>
-                            Min p: {s.minP}
+                            Deviation: {o.deviation >= 0 ? "+" : ""}{fmt("flow", o.deviation)}
+                            {o.designQ > 0 && ` (${o.deviationPct >= 0 ? "+" : ""}${o.deviationPct.toFixed(1)}%)`}
                           </div>
                           <div>
-                            p(discharge) - p(outlet): {s.deltaP}
-                          </div>
-                          <div>
-                            Σh along path: {s.sumH.toFixed(3)} m
+                            Σh at solved flow: {fmt("head", o.headLoss)}
                           </div>
                         </div>
                       </div>
                     ))}
                   </div>
+                )}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Scenarios</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setScenarios((prev) => [
+                          ...prev,
+                          { name: `Scenario ${prev.length + 1}`, blocked: [], factors: {} },
+                        ]);
+                        setScenarioResults(null);
+                      }}
+                      className="rounded border px-2 py-0.5 text-[11px]"
+                    >
+                      Add scenario
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleRunScenarios}
+                      disabled={scenarios.length === 0}
+                      className="rounded border border-black bg-white px-2 py-0.5 text-[11px] disabled:opacity-50"
+                    >
+                      Run
+                    </button>
+                  </div>
                 </div>
-              )}
+                <div className="text-muted-foreground">
+                  {typeof solverHead === "number" && solverHead > 0
+                    ? `Flows of unaffected outlets are solved at the ${fmt("head", solverHead, 2)} available head entered under Flow distribution.`
+                    : "Every outlet runs at its scenario flow. Enter an available head under Flow distribution to solve flows instead."}
+                </div>
+                {scenarios.map((scenario, i) => {
+                  const outlets = nodes
+                    .filter((n) => n.type === "outlet")
+                    .map((n) => ({ id: n.id, index: componentIndexMap.get(`node:${n.id}`) ?? 0 }))
+                    .sort((a, b) => a.index - b.index);
+                  return (
+                    <div key={i} className="rounded border px-2 py-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <input
+                          className="flex-1 rounded border px-2 py-1 text-xs"
+                          value={scenario.name}
+                          onChange={(e) =>
+                            updateScenario(i, (s) => ({ ...s, name: e.target.value }))
+                          }
+                        />
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setScenarios((prev) => prev.filter((_, j) => j !== i));
+                            setScenarioResults(null);
+                          }}
+                          className="text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          &times;
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+                        {outlets.map((o) => {
+                          const factor = scenario.factors[o.id];
+                          const state = scenario.blocked.includes(o.id)
+                            ? "blocked"
+                            : typeof factor === "number"
+                            ? "scaled"
+                            : "design";
+                          return (
+                            <label key={o.id} className="flex items-center gap-1">
+                              <span className="w-16 text-muted-foreground">Outlet {o.index}</span>
+                              <select
+                                className="rounded border px-1 py-0.5 text-xs"
+                                value={state}
+                                onChange={(e) =>
+                                  setScenarioOutlet(
+                                    i,
+                                    o.id,
+                                    e.target.value === "scaled"
+                                      ? 0.5
+                                      : (e.target.value as "design" | "blocked")
+                                  )
+                                }
+                              >
+                                <option value="design">Design</option>
+                                <option value="blocked">Blocked</option>
+                                <option value="scaled">Partial</option>
+                              </select>
+                              {state === "scaled" && (
+                                <>
+                                  <input
+                                    type="number"
+                                    className="w-14 rounded border px-1 py-0.5 text-xs"
+                                    value={Number((factor * 100).toPrecision(6))}
+                                    onChange={(e) => {
+                                      const num = Number(e.target.value);
+                                      if (e.target.value === "" || Number.isNaN(num) || num < 0) return;
+                                      setScenarioOutlet(i, o.id, num / 100);
+                                    }}
+                                  />
+                                  <span className="text-muted-foreground">%</span>
+                                </>
+                              )}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+                {scenarioResults &&
+                  scenarioResults.slice(1).map((result, i) => {
+                    const design = scenarioResults[0];
+                    const failing = result.outlets.filter((o) => !o.pass).length;
+                    return (
+                      <div key={i} className="rounded border px-2 py-1 space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{result.name}</span>
+                          <span
+                            className={
+                              failing === 0
+                                ? "font-medium text-green-700"
+                                : "font-medium text-red-600"
+                            }
+                          >
+                            {failing === 0 ? "Pass" : `${failing} path(s) fail`}
+                          </span>
+                        </div>
+                        <div className="text-muted-foreground">
+                          Min. p {fmt("pressure", design.minPressure)} →{" "}
+                          {fmt("pressure", result.minPressure)}
+                          {result.converged === false && " · flow solver did not converge"}
+                        </div>
+                        <table className="w-full text-left">
+                          <thead>
+                            <tr className="text-muted-foreground">
+                              <th className="font-normal">Outlet</th>
+                              <th className="font-normal">Q design → scenario</th>
+                              <th className="font-normal">Min. p design → scenario</th>
+                              <th className="font-normal">Status</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {result.outlets.map((o) => {
+                              const base = design.outlets.find((d) => d.id === o.id);
+                              return (
+                                <tr key={o.id}>
+                                  <td>{o.drawIndex}</td>
+                                  <td>
+                                    {base ? toDisplay(unitSystem, "flow", base.flow).toFixed(2) : "-"} →{" "}
+                                    {fmt("flow", o.flow, 2)}
+                                  </td>
+                                  <td>
+                                    {base ? toDisplay(unitSystem, "pressure", base.minPressure).toFixed(2) : "-"} →{" "}
+                                    {fmt("pressure", o.minPressure, 2)}
+                                  </td>
+                                  <td
+                                    className={
+                                      o.blocked
+                                        ? "text-muted-foreground"
+                                        : o.pass
+                                        ? "text-green-700"
+                                        : "text-red-600"
+                                    }
+                                  >
+                                    {o.blocked ? "Blocked" : o.pass ? "Pass" : o.failures.join(", ")}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    );
+                  })}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Priming</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">Storm ramp [min]</span>
+                  <input
+                    type="number"
+                    className="w-16 rounded border px-2 py-1 text-xs"
+                    value={primingRamp}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (e.target.value === "" || Number.isNaN(num) || num < 0) return;
+                      setPrimingRamp(num);
+                    }}
+                  />
+                  <span className="text-muted-foreground">Limit [s]</span>
+                  <input
+                    type="number"
+                    className="w-16 rounded border px-2 py-1 text-xs"
+                    value={primingLimit}
+                    onChange={(e) => {
+                      const num = Number(e.target.value);
+                      if (e.target.value === "" || Number.isNaN(num) || num <= 0) return;
+                      setPrimingLimit(num);
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSimulatePriming}
+                    className="rounded border border-black bg-white px-2 py-0.5 text-[11px]"
+                  >
+                    Simulate
+                  </button>
+                </div>
+                <div className="text-muted-foreground">
+                  Rain rises from dry to the design intensity over the ramp and then holds.
+                </div>
+                {primingMessage && <div className="text-red-600">{primingMessage}</div>}
+                {priming &&
+                  (() => {
+                    const width = 460;
+                    const height = 110;
+                    const tMax = Math.max(priming.time[priming.time.length - 1] ?? 1, 1);
+                    const dMax = Math.max(...priming.outlets.map((o) => o.maxDepth), 1e-9);
+                    const x = (t: number) => (t / tMax) * width;
+                    const line = (values: number[], max: number) =>
+                      values
+                        .map((v, i) => `${x(priming.time[i]).toFixed(1)},${(height - (v / max) * height).toFixed(1)}`)
+                        .join(" ");
+                    const colors = ["#2563eb", "#ea580c", "#16a34a", "#9333ea", "#dc2626", "#0891b2"];
+                    return (
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">
+                            {priming.primed
+                              ? `Primes after ${priming.timeToPrime} s`
+                              : `Not primed after ${tMax} s`}
+                            {" · "}pipe volume {fmt("volume", priming.pipeVolume, 1)}
+                          </span>
+                          <span
+                            className={
+                              priming.withinLimit
+                                ? "font-medium text-green-700"
+                                : "font-medium text-red-600"
+                            }
+                          >
+                            {priming.withinLimit ? "Pass" : `Over ${priming.limit} s`}
+                          </span>
+                        </div>
+                        {/* Roof water depth per outlet (solid) and pipe fill
+                            (dashed, 0–100 %) over time. */}
+                        <svg
+                          viewBox={`0 0 ${width} ${height}`}
+                          className="w-full rounded border bg-neutral-50"
+                          preserveAspectRatio="none"
+                        >
+                          {priming.limit <= tMax && (
+                            <line
+                              x1={x(priming.limit)}
+                              x2={x(priming.limit)}
+                              y1={0}
+                              y2={height}
+                              stroke="#dc2626"
+                              strokeDasharray="2 2"
+                            />
+                          )}
+                          <polyline
+                            points={line(priming.fill, 1)}
+                            fill="none"
+                            stroke="#525252"
+                            strokeDasharray="4 3"
+                            vectorEffect="non-scaling-stroke"
+                          />
+                          {priming.outlets.map((o, i) => (
+                            <polyline
+                              key={o.id}
+                              points={line(o.depth, dMax)}
+                              fill="none"
+                              stroke={colors[i % colors.length]}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          ))}
+                        </svg>
+                        <div className="flex flex-wrap gap-x-3 text-muted-foreground">
+                          {priming.outlets.map((o, i) => (
+                            <span key={o.id} style={{ color: colors[i % colors.length] }}>
+                              Outlet {o.drawIndex}: max {fmt("depth", o.maxDepth, unitSystem === "si" ? 1 : 2)}
+                            </span>
+                          ))}
+                          <span>- - pipe fill</span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Auto-size pipes</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">
+                    Imbalance tolerance [{unitOf("head")}]
+                  </span>
+                  <input
+                    type="number"
+                    className="w-20 rounded border px-2 py-1 text-xs"
+                    value={inputOf("head", sizingTolerance)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      const num = value === "" ? undefined : Number(value);
+                      if (Number.isNaN(num)) return;
+                      setSizingTolerance(fromInput("head", num));
+                    }}
+                  />
+                  <span className="text-muted-foreground">
+                    Min. pressure {fmt("pressure", pressureLimitM, 2)} (pressure limit)
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleAutoSize}
+                    className="rounded border border-black bg-white px-2 py-0.5 text-[11px]"
+                  >
+                    Auto-size
+                  </button>
+                </div>
+                {sizingMessage && (
+                  <div className="text-red-600">{sizingMessage}</div>
+                )}
+                {sizingSummary && (
+                  <div className="rounded border px-2 py-1 text-muted-foreground space-y-0.5">
+                    <div>
+                      {sizingSummary.changed} pipe(s) resized after {sizingSummary.evaluations} trial calculations
+                    </div>
+                    <div>
+                      Pipe volume: {fmt("volume", sizingSummary.before.material, 1)} →{" "}
+                      {fmt("volume", sizingSummary.after.material, 1)}
+                    </div>
+                    <div>
+                      Outlet imbalance: {fmt("head", sizingSummary.before.imbalance)} →{" "}
+                      {fmt("head", sizingSummary.after.imbalance)}
+                    </div>
+                    <div>
+                      Min. pressure: {fmt("pressure", sizingSummary.before.minPressure)} →{" "}
+                      {fmt("pressure", sizingSummary.after.minPressure)}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t pt-2 space-y-2">
+                <div className="font-medium">Sensitivity</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {(Object.keys(SENSITIVITY_PARAMETER_LABELS) as SensitivityParameter[]).map(
+                    (key) => (
+                      <Fragment key={key}>
+                        <span className="text-muted-foreground">
+                          {SENSITIVITY_PARAMETER_LABELS[key]} ±%
+                        </span>
+                        <input
+                          type="number"
+                          className="w-14 rounded border px-2 py-1 text-xs"
+                          value={Number((sensitivityRanges[key] * 100).toPrecision(6))}
+                          onChange={(e) => {
+                            const num = Number(e.target.value);
+                            if (e.target.value === "" || Number.isNaN(num) || num < 0) return;
+                            setSensitivityRanges((prev) => ({ ...prev, [key]: num / 100 }));
+                          }}
+                        />
+                      </Fragment>
+                    )
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleRunSensitivity}
+                    disabled={sensitivityRunning}
+                    className="rounded border border-black bg-white px-2 py-0.5 text-[11px]"
+                  >
+                    {sensitivityRunning ? "Running…" : "Run"}
+                  </button>
+                </div>
+                {sensitivityMessage && (
+                  <div className="text-red-600">{sensitivityMessage}</div>
+                )}
+                {sensitivity &&
+                  (() => {
+                    const metric = sensitivityMetric;
+                    const quantity = metric === "minPressure" ? "pressure" : "head";
+                    const swing = (e: SensitivityEntry) =>
+                      metric === "minPressure" ? e.minPressureSwing : e.imbalanceSwing;
+                    const ranked = [...sensitivity.entries].sort((a, b) => swing(b) - swing(a));
+                    const top = ranked.slice(0, 10);
+                    const scale = Math.max(...top.map(swing), 1e-9);
+                    const delta = (e: SensitivityEntry, end: "low" | "high") =>
+                      e[end][metric] - sensitivity.base[metric];
+                    const valueText = (e: SensitivityEntry) =>
+                      e.parameter === "roughness"
+                        ? fmt("diameter", e.value, 4)
+                        : e.parameter === "diameter"
+                        ? fmt("diameter", e.value, 2)
+                        : e.parameter === "capacity"
+                        ? fmt("flow", e.value, 2)
+                        : `K ${e.value.toFixed(2)}`;
+                    // Half-width of the chart, in percent, on each side of the
+                    // design value.
+                    const bar = (d: number) => `${(Math.abs(d) / scale) * 50}%`;
+                    return (
+                      <div className="space-y-2">
+                        <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                          <span>
+                            Design: min p {fmt("pressure", sensitivity.base.minPressure)} · imbalance{" "}
+                            {fmt("head", sensitivity.base.imbalance)} · {sensitivity.evaluations} runs
+                            {!sensitivity.complete && " (run limit reached; later components not varied)"}
+                          </span>
+                          <select
+                            className="rounded border px-2 py-1 text-xs"
+                            value={metric}
+                            onChange={(e) =>
+                              setSensitivityMetric(e.target.value as "minPressure" | "imbalance")
+                            }
+                          >
+                            <option value="minPressure">Rank by min. pressure</option>
+                            <option value="imbalance">Rank by path imbalance</option>
+                          </select>
+                        </div>
+
+                        {/* Tornado chart: change of the metric at the low (blue)
+                            and high (orange) end of each range. */}
+                        <div className="space-y-0.5">
+                          {top.map((e) => {
+                            const lo = delta(e, "low");
+                            const hi = delta(e, "high");
+                            return (
+                              <div
+                                key={`${e.parameter}:${e.component}:${e.id}`}
+                                className="flex items-center gap-2"
+                              >
+                                <span className="w-40 truncate text-right text-muted-foreground">
+                                  {e.label} · {SENSITIVITY_PARAMETER_LABELS[e.parameter]}
+                                </span>
+                                <div className="relative h-3 flex-1 bg-neutral-50">
+                                  <div className="absolute inset-y-0 left-1/2 w-px bg-neutral-400" />
+                                  {[
+                                    { d: lo, color: "bg-blue-400" },
+                                    { d: hi, color: "bg-orange-400" },
+                                  ].map(({ d, color }, i) => (
+                                    <div
+                                      key={i}
+                                      className={`absolute inset-y-0 ${color} opacity-80`}
+                                      style={
+                                        d < 0
+                                          ? { right: "50%", width: bar(d) }
+                                          : { left: "50%", width: bar(d) }
+                                      }
+                                    />
+                                  ))}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+
+                        <div className="max-h-48 overflow-auto">
+                          <table className="w-full text-left">
+                            <thead>
+                              <tr className="text-muted-foreground">
+                                <th className="font-normal">Component</th>
+                                <th className="font-normal">Parameter</th>
+                                <th className="font-normal">Design</th>
+                                <th className="font-normal">Δ low</th>
+                                <th className="font-normal">Δ high</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {ranked.map((e) => (
+                                <tr key={`${e.parameter}:${e.component}:${e.id}`}>
+                                  <td>{e.label}</td>
+                                  <td>{SENSITIVITY_PARAMETER_LABELS[e.parameter]}</td>
+                                  <td>{valueText(e)}</td>
+                                  <td>{fmt(quantity, delta(e, "low"))}</td>
+                                  <td>{fmt(quantity, delta(e, "high"))}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    );
+                  })()}
+              </div>
             </div>
           </div>
         </div>
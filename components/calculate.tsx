@@ -1,34 +1,91 @@
 "use client";
 
 import React from "react";
-import { Calculations, type EquationsComponent, type EquationRow } from "@/lib/calculations";
+import {
+  Calculations,
+  type DischargeCheck,
+  type EquationsComponent,
+  type EquationRow,
+  type OutletHeadCheck,
+  type OutletProductCheck,
+  type ProjectSettings,
+  type SystemInfo,
+} from "@/lib/calculations";
+import {
+  solveFlowDistribution,
+  type FlowSolution,
+  type FlowSolverOptions,
+} from "@/lib/flowSolver";
+import {
+  checkPathImbalance,
+  type ImbalanceTolerance,
+  type PathImbalance,
+} from "@/lib/imbalance";
+import {
+  autoSizePipes,
+  type AutoSizeOptions,
+  type AutoSizeResult,
+} from "@/lib/pipeSizer";
+import {
+  simulatePriming,
+  type PrimingOptions,
+  type PrimingResult,
+} from "@/lib/priming";
+import {
+  runScenarios,
+  type Scenario,
+  type ScenarioOptions,
+  type ScenarioResult,
+} from "@/lib/scenarios";
+import {
+  analyzeSensitivity,
+  type SensitivityOptions,
+  type SensitivityResult,
+} from "@/lib/sensitivity";
+import { validateTopology, type TopologyIssue } from "@/lib/topologyValidator";
+import {
+  checkVelocities,
+  type VelocityLimits,
+  type VelocityViolation,
+} from "@/lib/velocityChecks";
 
 // Base type used throughout calculations: a single unified component shape
-// (node or edge) with optional geometry.
+// (node or edge) with optional geometry and, for outlets, the catchment the
+// priming simulation derives inflow from.
 export type CalcComponent = EquationsComponent & {
   x?: number;
   y?: number;
+  catchmentArea?: number;
+  runoffCoefficient?: number;
 };
 
+// Assign a stable draw_index based on the incoming order. The canvas layer
+// guarantees that existing components keep their relative order and new
+// components are appended, so this index matches the on‑canvas numbering
+// and will not change for already‑drawn pipes/nodes.
+function withDrawIndex(components: CalcComponent[]): CalcComponent[] {
+  return components.map((comp, idx) => ({
+    ...(comp as CalcComponent),
+    draw_index:
+      typeof (comp as any).draw_index === "number" &&
+      !Number.isNaN((comp as any).draw_index)
+        ? (comp as any).draw_index
+        : idx + 1,
+  }));
+}
+
 // Shared helper: compute EquationRow[] from a components array in the same way
 // the Calculation dialog does.
-export function computeRowsFromComponents(components: CalcComponent[]): EquationRow[][] {
+export function computeRowsFromComponents(
+  components: CalcComponent[],
+  project: ProjectSettings = {}
+): EquationRow[][] {
   if (!components.length) return [];
   try {
-    // Assign a stable draw_index based on the incoming order. The canvas layer
-    // guarantees that existing components keep their relative order and new
-    // components are appended, so this index matches the on‑canvas numbering
-    // and will not change for already‑drawn pipes/nodes.
-    const withDrawIndex: CalcComponent[] = components.map((comp, idx) => ({
-      ...(comp as CalcComponent),
-      draw_index:
-        typeof (comp as any).draw_index === "number" &&
-        !Number.isNaN((comp as any).draw_index)
-          ? (comp as any).draw_index
-          : idx + 1,
-    }));
-
-    const calc = new Calculations({ components: withDrawIndex });
+    const calc = new Calculations({
+      ...project,
+      components: withDrawIndex(components),
+    });
     return calc.toRows();
   } catch (err) {
     console.error("Error computing rows in computeRowsFromComponents", err);
@@ -36,6 +93,174 @@ export function computeRowsFromComponents(components: CalcComponent[]): Equation
   }
 }
 
+// Everything the canvas shows for one calculation of the network.
+export type NetworkResult = {
+  rows: EquationRow[][];
+  systems: SystemInfo[];
+  // Available-head pass/fail per outlet path.
+  headChecks: OutletHeadCheck[];
+  // Outlet capacity against the chosen product and required water depth.
+  outletChecks: OutletProductCheck[];
+  // Velocity reduction at each discharge with a transition.
+  dischargeChecks: DischargeCheck[];
+  velocityViolations: VelocityViolation[];
+  // Residual head of each outlet path against its system's critical path.
+  pathImbalance: PathImbalance[];
+  // Message when the calculation throws, so the canvas can show why no rows
+  // came back.
+  error: string | null;
+};
+
+export type NetworkCheckOptions = {
+  velocityLimits?: VelocityLimits;
+  imbalanceTolerance?: ImbalanceTolerance;
+};
+
+const EMPTY_NETWORK: NetworkResult = {
+  rows: [],
+  systems: [],
+  headChecks: [],
+  outletChecks: [],
+  dischargeChecks: [],
+  velocityViolations: [],
+  pathImbalance: [],
+  error: null,
+};
+
+// Shared helper: rows, systems (one per discharge) and every check derived
+// from them, all from a single Calculations run and numbered the same way
+// computeRowsFromComponents does.
+export function computeNetworkFromComponents(
+  components: CalcComponent[],
+  project: ProjectSettings = {},
+  options: NetworkCheckOptions = {}
+): NetworkResult {
+  if (!components.length) return EMPTY_NETWORK;
+  try {
+    const calc = new Calculations({
+      ...project,
+      components: withDrawIndex(components),
+    });
+    const rows = calc.toRows();
+    const systems = calc.toSystems();
+    const headChecks = calc.toHeadChecks();
+    return {
+      rows,
+      systems,
+      headChecks,
+      outletChecks: calc.toOutletChecks(),
+      dischargeChecks: calc.toDischargeChecks(),
+      velocityViolations: checkVelocities(rows, options.velocityLimits),
+      pathImbalance: checkPathImbalance(
+        headChecks,
+        systems,
+        options.imbalanceTolerance,
+        calc.getFluid()
+      ),
+      error: null,
+    };
+  } catch (err) {
+    console.error("Error computing rows in computeNetworkFromComponents", err);
+    return {
+      ...EMPTY_NETWORK,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+// Shared helper: topology issues for a components array, numbered the same
+// way computeRowsFromComponents does. `rows` are the outlet paths computed
+// for the same components.
+export function validateTopologyFromComponents(
+  components: CalcComponent[],
+  rows: EquationRow[][] = []
+): TopologyIssue[] {
+  if (!components.length) return [];
+  try {
+    return validateTopology(withDrawIndex(components), rows);
+  } catch (err) {
+    console.error("Error validating topology in validateTopologyFromComponents", err);
+    return [];
+  }
+}
+
+// Shared helper: run the flow-distribution solver on a components array,
+// numbering components the same way computeRowsFromComponents does.
+export function solveFlowsFromComponents(
+  components: CalcComponent[],
+  options: FlowSolverOptions
+): FlowSolution | null {
+  if (!components.length) return null;
+  try {
+    return solveFlowDistribution(withDrawIndex(components), options);
+  } catch (err) {
+    console.error("Error solving flows in solveFlowsFromComponents", err);
+    return null;
+  }
+}
+
+// Shared helper: run the pipe-diameter optimizer on a components array,
+// numbering components the same way computeRowsFromComponents does.
+export function autoSizeFromComponents(
+  components: CalcComponent[],
+  options: AutoSizeOptions = {}
+): AutoSizeResult | null {
+  if (!components.length) return null;
+  try {
+    return autoSizePipes(withDrawIndex(components), options);
+  } catch (err) {
+    console.error("Error sizing pipes in autoSizeFromComponents", err);
+    return null;
+  }
+}
+
+// Shared helper: run the sensitivity analysis on a components array,
+// numbering components the same way computeRowsFromComponents does.
+export function analyzeSensitivityFromComponents(
+  components: CalcComponent[],
+  options: SensitivityOptions = {}
+): SensitivityResult | null {
+  if (!components.length) return null;
+  try {
+    return analyzeSensitivity(withDrawIndex(components), options);
+  } catch (err) {
+    console.error("Error running sensitivity analysis in analyzeSensitivityFromComponents", err);
+    return null;
+  }
+}
+
+// Shared helper: run the design case and off-design scenarios on a
+// components array, numbering components the same way
+// computeRowsFromComponents does.
+export function runScenariosFromComponents(
+  components: CalcComponent[],
+  scenarios: Scenario[],
+  options: ScenarioOptions = {}
+): ScenarioResult[] {
+  if (!components.length) return [];
+  try {
+    return runScenarios(withDrawIndex(components), scenarios, options);
+  } catch (err) {
+    console.error("Error running scenarios in runScenariosFromComponents", err);
+    return [];
+  }
+}
+
+// Shared helper: simulate priming at the start of a storm on a components
+// array, numbering components the same way computeRowsFromComponents does.
+export function simulatePrimingFromComponents(
+  components: CalcComponent[],
+  options: PrimingOptions
+): PrimingResult | null {
+  if (!components.length) return null;
+  try {
+    return simulatePriming(withDrawIndex(components), options);
+  } catch (err) {
+    console.error("Error simulating priming in simulatePrimingFromComponents", err);
+    return null;
+  }
+}
+
 export interface CalculateProps {
   // We keep this generic to avoid tight coupling; IsometricCanvas passes
   // its CanvasJson value here.
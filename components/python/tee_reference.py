@@ -0,0 +1,64 @@
+"""
+Reference tee loss coefficients for lib/teeParity.ts.
+
+Evaluates tee_main_K and tee_side_K from equations.py on a grid of area
+ratios, flow ratios and branch angles and writes lib/teeReference.json:
+
+    python3 components/python/tee_reference.py
+
+Only the two tee methods are loaded from equations.py, so the script runs
+without the module's other dependencies.
+"""
+import ast
+import json
+import math
+import os
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+SOURCE = os.path.join(HERE, "equations.py")
+OUTPUT = os.path.join(HERE, "..", "..", "lib", "teeReference.json")
+
+AREA_RATIOS = [0.2, 0.35, 0.5, 0.75, 1.0]
+FLOW_RATIOS = [round(i / 10, 1) for i in range(11)]
+ANGLES = [45, 90]
+
+
+def load_tee_functions():
+    with open(SOURCE) as f:
+        tree = ast.parse(f.read())
+
+    wanted = {"tee_main_K", "tee_side_K"}
+    defs = [
+        node
+        for cls in tree.body
+        if isinstance(cls, ast.ClassDef) and cls.name == "Equations"
+        for node in cls.body
+        if isinstance(node, ast.FunctionDef) and node.name in wanted
+    ]
+    module = ast.Module(body=defs, type_ignores=[])
+    namespace = {"math": math}
+    exec(compile(module, SOURCE, "exec"), namespace)
+    return namespace["tee_main_K"], namespace["tee_side_K"]
+
+
+def main():
+    tee_main_K, tee_side_K = load_tee_functions()
+
+    cases = []
+    for a in AREA_RATIOS:
+        for q in FLOW_RATIOS:
+            for angle in ANGLES:
+                theta = math.radians(angle)
+                # tee_main_K's `v` argument is the area ratio.
+                cases.append({"item": "tee_main", "a": a, "q": q, "theta": angle,
+                              "K": tee_main_K(None, a, q, theta, a)})
+                cases.append({"item": "tee_side", "a": a, "q": q, "theta": angle,
+                              "K": tee_side_K(None, a, q, theta)})
+
+    with open(OUTPUT, "w") as f:
+        json.dump({"source": "components/python/equations.py", "cases": cases}, f, indent=2)
+        f.write("\n")
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,173 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  Calculations,
+  pathHeadLoss,
+  type EquationRow,
+  type EquationsComponent,
+} from "@/lib/calculations";
+import { GRAVITY } from "@/lib/fluid";
+
+// Number components in drawing order, as the canvas layer does.
+function drawn(components: EquationsComponent[]): EquationsComponent[] {
+  return components.map((c, i) => ({ ...c, draw_index: i + 1 }));
+}
+
+function rowsOf(components: EquationsComponent[]): EquationRow[][] {
+  return new Calculations({ components: drawn(components) }).toRows();
+}
+
+beforeAll(() => {
+  // Calculations traces every step to the console.
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("pathHeadLoss", () => {
+  it("skips rows that only carry the previous row's loss", () => {
+    const rows: EquationRow[] = [
+      { index: 1, item: "discharge", Q: 5, d: 110, delta_H: 0.02 },
+      { index: 2, item: "pipe", Q: 5, d: 110, delta_H: 0.05 },
+      { index: 3, item: "outlet", Q: 5, d: 110, delta_H: 0.05, delta_H_carried: true },
+    ];
+    expect(pathHeadLoss(rows)).toBeCloseTo(0.07, 12);
+  });
+});
+
+describe("Σh per outlet path", () => {
+  // HDPE 110 mm: di = 101.6 mm, k = 0.2 mm; water at 20 °C, ν = 1.004e-6.
+  const Q = 5 / 1000;
+  const di = 0.1016;
+  const V = Q / ((Math.PI / 4) * di * di);
+  const vp = (V * V) / (2 * GRAVITY);
+  const Re = (V * di) / 1.004e-6;
+  // Swamee–Jain with k and di in mm.
+  const f = 1 / Math.pow(0.86 * Math.log(0.2 / (3.7 * 101.6) + 5.74 / Math.pow(Re, 0.9)), 2);
+
+  it("adds the discharge exit loss and the pipe friction of a straight run", () => {
+    const rows = rowsOf([
+      { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+      { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 110, length: 10 },
+      { component: "node", id: 3, x: 0, y: 0, type: "outlet", capacity: 5 },
+    ]);
+
+    // Free discharge K = 1; the outlet has no entry loss.
+    expect(vp).toBeCloseTo(0.019386, 6);
+    expect(pathHeadLoss(rows[0])).toBeCloseTo(vp * (1 + (f * 10) / di), 6);
+  });
+
+  it("adds fitting losses once along the path", () => {
+    const rows = rowsOf([
+      { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+      { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 110, length: 6 },
+      { component: "node", id: 3, x: 0, y: 0, type: "elbow90" },
+      { component: "edge", id: 4, fromId: 3, toId: 5, type: "pipe", diameter: 110, length: 4 },
+      { component: "node", id: 5, x: 100, y: 0, type: "outlet", capacity: 5 },
+    ]);
+
+    // Discharge K = 1, standard 90° elbow K = 0.4, 10 m of pipe in total.
+    const expected = vp * (1 + 0.4 + (f * 10) / di);
+    expect(expected).toBeCloseTo(0.07804, 5);
+    expect(pathHeadLoss(rows[0])).toBeCloseTo(expected, 6);
+  });
+
+  it("reports the same loss in the head check", () => {
+    const calc = new Calculations({
+      components: drawn([
+        { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+        { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 110, length: 10 },
+        { component: "node", id: 3, x: 0, y: 0, type: "outlet", capacity: 5 },
+      ]),
+    });
+    const [check] = calc.toHeadChecks();
+    expect(check.headLoss).toBeCloseTo(pathHeadLoss(calc.toRows()[0]), 12);
+    expect(check.residualHead).toBeCloseTo(check.availableHead - check.headLoss, 12);
+  });
+});
+
+describe("junction flows", () => {
+  // Junction rows on the path to `outlet`.
+  const junctionRows = (rows: EquationRow[][], outlet: number) =>
+    rows
+      .find((path) => path.some((r) => r.item === "outlet" && r.index === outlet))!
+      .filter((r) => r.item === "tee_main" || r.item === "tee_side");
+
+  it("splits a 3-way tee into the flows of its two legs", () => {
+    const rows = rowsOf([
+      { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+      { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 90, length: 5 },
+      { component: "node", id: 3, x: 0, y: 0, type: "tee" },
+      { component: "edge", id: 4, fromId: 3, toId: 5, type: "pipe", diameter: 75, length: 8 },
+      { component: "node", id: 5, x: 100, y: 0, type: "outlet", capacity: 6 },
+      { component: "edge", id: 6, fromId: 3, toId: 7, type: "pipe", diameter: 56, length: 4 },
+      { component: "node", id: 7, x: 0, y: -100, type: "outlet", capacity: 3 },
+    ]);
+
+    expect(rows).toHaveLength(2);
+    // The pipe up to the tee carries both outlets.
+    expect(rows[0].find((r) => r.index === 2)?.Q).toBeCloseTo(9, 12);
+
+    // Outlet 7 continues the incoming pipe, so it is the main run.
+    const [main] = junctionRows(rows, 7);
+    const [side] = junctionRows(rows, 5);
+    expect(main.item).toBe("tee_main");
+    expect(side.item).toBe("tee_side");
+    expect(main.Q).toBeCloseTo(3, 12);
+    expect(side.Q).toBeCloseTo(6, 12);
+    // Both rows share q90 = Q_side / (Q_main + Q_side).
+    expect(main.q90).toBeCloseTo(6 / 9, 12);
+    expect(side.q90).toBeCloseTo(6 / 9, 12);
+  });
+
+  it("takes 90° for a plain tee and 45° for a Y-valve", () => {
+    const network = (type: string) =>
+      rowsOf([
+        { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+        { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 90, length: 5 },
+        { component: "node", id: 3, x: 0, y: 0, type },
+        { component: "edge", id: 4, fromId: 3, toId: 5, type: "pipe", diameter: 75, length: 8 },
+        { component: "node", id: 5, x: 100, y: 0, type: "outlet", capacity: 6 },
+        { component: "edge", id: 6, fromId: 3, toId: 7, type: "pipe", diameter: 56, length: 4 },
+        { component: "node", id: 7, x: 0, y: -100, type: "outlet", capacity: 3 },
+      ]);
+
+    for (const [type, theta] of [
+      ["tee", 90],
+      ["yvalve", 45],
+    ] as const) {
+      const rows = network(type);
+      for (const row of [...junctionRows(rows, 5), ...junctionRows(rows, 7)]) {
+        expect(row.theta, type).toBe(theta);
+      }
+    }
+  });
+
+  it("gives each leg of a 4-way junction its own flow and diameter", () => {
+    const rows = rowsOf([
+      { component: "node", id: 1, x: 0, y: 200, type: "discharge" },
+      { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 110, length: 5 },
+      { component: "node", id: 3, x: 0, y: 0, type: "tee" },
+      { component: "edge", id: 4, fromId: 3, toId: 5, type: "pipe", diameter: 75, length: 8 },
+      { component: "node", id: 5, x: 100, y: 0, type: "outlet", capacity: 5 },
+      { component: "edge", id: 6, fromId: 3, toId: 7, type: "pipe", diameter: 63, length: 4 },
+      { component: "node", id: 7, x: 0, y: -100, type: "outlet", capacity: 3 },
+      { component: "edge", id: 8, fromId: 3, toId: 9, type: "pipe", diameter: 50, length: 4 },
+      { component: "node", id: 9, x: -100, y: 0, type: "outlet", capacity: 1 },
+    ]);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].find((r) => r.index === 2)?.Q).toBeCloseTo(9, 12);
+
+    // Outlet 7 continues the incoming pipe; side legs compare against their
+    // own pipe.
+    const legs = [
+      { outlet: 5, item: "tee_side", Q: 5, d90: 75 },
+      { outlet: 7, item: "tee_main", Q: 3 },
+      { outlet: 9, item: "tee_side", Q: 1, d90: 50 },
+    ];
+    for (const leg of legs) {
+      const [row] = junctionRows(rows, leg.outlet);
+      expect(row.item).toBe(leg.item);
+      expect(row.Q).toBeCloseTo(leg.Q, 12);
+      if (leg.d90 !== undefined) expect(row.d90).toBe(leg.d90);
+    }
+  });
+});
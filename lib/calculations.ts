@@ -1,3 +1,45 @@
+import {
+  DEFAULT_MAX_GRAVITY_VELOCITY,
+  dischargeExitK,
+  dischargeTailwater,
+  downstreamVelocity,
+  type DischargeConfig,
+  type DischargeTransition,
+} from "@/lib/discharge";
+import { GRAVITY, waterProperties, type FluidProperties } from "@/lib/fluid";
+import {
+  DEFAULT_FRICTION_MODEL,
+  frictionFactor,
+  type FrictionModel,
+} from "@/lib/friction";
+import {
+  FITTING_LIBRARY,
+  fittingK,
+  fittingKindOf,
+  resolveFitting,
+  type FittingEntry,
+  type FittingSelection,
+} from "@/lib/fittings";
+import {
+  DEFAULT_MATERIAL,
+  PIPE_MATERIALS,
+  resolvePipeSize,
+  type PipeMaterial,
+} from "@/lib/materials";
+import {
+  buildNetworkTree,
+  pathToRoot,
+  walkTree,
+  type TreeNode,
+} from "@/lib/networkTree";
+import {
+  OUTLET_PRODUCTS,
+  findOutletProduct,
+  requiredWaterDepth,
+  type OutletProduct,
+} from "@/lib/outletProducts";
+import { type WorkingStep } from "@/lib/working";
+
 export type PressureLoss = {
   deltaP: number;
   deltaH: number;
@@ -32,12 +74,153 @@ export type EquationsComponent = {
    * consistent vertical/non-vertical classification.
    */
   vertical?: boolean | null;
+  /**
+   * Branch angle of a tee junction in degrees (45 for a Y-branch, 90 for a
+   * square tee). Set on the canvas tee node and copied onto the synthetic
+   * tee_side so both legs of the junction use the same angle.
+   */
+  branchAngle?: number | null;
+  /**
+   * Kind of junction a tee_main/tee_side pair was created from: a plain
+   * "tee" or a 45° "yvalve". Set by fillTee() and carried onto both legs.
+   */
+  junction?: "tee" | "yvalve" | null;
+  /**
+   * Absolute level of a node in metres above the project datum. Only read
+   * on outlet and discharge nodes, where it overrides the project-level
+   * roofLevel / dischargeLevel for the head check.
+   */
+  elevation?: number | null;
+  /**
+   * Pipe material key from lib/materials (e.g. "hdpe"). Set on a pipe to
+   * override the project material; fillDiameter() carries it onto the nodes
+   * that follow so fittings use the same internal diameter.
+   */
+  material?: string | null;
+  /**
+   * Fitting library key chosen for this node (e.g. "elbow90_swept").
+   * Overrides the project choice for the node's fitting kind.
+   */
+  fitting?: string | null;
+  /**
+   * Diameter of the leg a tee row is compared against (d90), set by the
+   * graph-based organizer. Falls back to the next component in drawing order
+   * when absent.
+   */
+  branchDiameter?: number | null;
+  /** User-facing name of a discharge, used as its system's name. */
+  name?: string | null;
+  /**
+   * Outlet product key from lib/outletProducts. Its entry K replaces the
+   * outlet fitting K, and its maximum capacity and curve feed the outlet
+   * checks.
+   */
+  product?: string | null;
+  /**
+   * Transition to gravity drainage at a discharge. Its exit loss replaces
+   * the discharge fitting K and its tailwater raises the pressure at the
+   * discharge. Without it the discharge is a pure reference point.
+   */
+  discharge?: DischargeConfig | null;
 };
 
+/**
+ * Branch angle used for plain tees that do not specify one (degrees), as in
+ * equations.py. Y-valves are always 45°.
+ */
+export const DEFAULT_BRANCH_ANGLE = 90;
+
 export interface EquationsInput {
   components: EquationsComponent[];
+  // Project-level roof outlet and discharge (ground/manhole) levels in metres
+  // above datum. Used for outlets/discharges without their own elevation.
+  roofLevel?: number | null;
+  dischargeLevel?: number | null;
+  // Project default pipe material, used for pipes without their own.
+  material?: string | null;
+  // Design water temperature (°C) for density, viscosity and vapour pressure.
+  temperature?: number | null;
+  // Pipe friction factor formulation; defaults to DEFAULT_FRICTION_MODEL.
+  frictionModel?: FrictionModel | null;
+  // Project choice of fitting library entry per fitting kind.
+  fittings?: FittingSelection;
+  // Fitting library to draw K values from; defaults to FITTING_LIBRARY.
+  fittingLibrary?: FittingEntry[];
+  // Outlet product catalog; defaults to OUTLET_PRODUCTS.
+  outletProducts?: OutletProduct[];
+  // Pipe material catalog; defaults to PIPE_MATERIALS.
+  materials?: PipeMaterial[];
 }
 
+/** Project-wide inputs to Calculations, i.e. everything except components. */
+export type ProjectSettings = Omit<EquationsInput, "components">;
+
+/** One independent drainage system: a discharge and the network it drains. */
+export type SystemInfo = {
+  // 1-based system number.
+  system: number;
+  name: string;
+  // draw_index of the system's discharge.
+  dischargeIndex: number;
+  // Indices into toRows() of this system's outlet paths.
+  paths: number[];
+};
+
+/** Available-head check for a single outlet path. */
+export type OutletHeadCheck = {
+  pathIndex: number;
+  drawIndex: number;
+  // "datum" when both levels came from elevations/project levels, "geometry"
+  // when the available head falls back to the drawn vertical pipe lengths.
+  source: "datum" | "geometry";
+  outletLevel?: number;
+  dischargeLevel?: number;
+  // Static head between outlet and discharge (m), less any tailwater.
+  availableHead: number;
+  // Tailwater depth at the discharge taken off the available head (m).
+  tailwater: number;
+  // Σ delta_H along the path (m).
+  headLoss: number;
+  // availableHead − headLoss (m); negative means the path cannot carry its
+  // design flow.
+  residualHead: number;
+  pass: boolean;
+};
+
+/**
+ * Velocity reduction at a discharge with a gravity transition. Only a
+ * discharge into a gravity pipe or chamber is checked against the gravity
+ * velocity limit; a free outfall reports its velocity without a result.
+ */
+export type DischargeCheck = {
+  drawIndex: number;
+  transition: DischargeTransition;
+  exitK: number;
+  // Velocity in the last siphonic pipe (m/s).
+  velocity: number;
+  // Velocity after the transition (m/s).
+  downstreamVelocity: number;
+  // Absent for a free outfall.
+  maxVelocity?: number;
+  tailwater: number;
+  // Absent for a free outfall.
+  pass?: boolean;
+};
+
+/** Design capacity of one outlet against its product. */
+export type OutletProductCheck = {
+  drawIndex: number;
+  // Product key, absent for outlets without a product.
+  product?: string;
+  capacity: number;
+  maxCapacity?: number;
+  // Water depth on the roof needed to pass `capacity` (mm); absent without a
+  // product or when the capacity is beyond the product's curve.
+  waterDepth?: number;
+  // False when the capacity exceeds the product's maximum.
+  pass: boolean;
+};
+
 /** Row shape used for tabular export (CSV/Excel). */
 export type EquationRow = {
   index: number;
@@ -51,6 +234,24 @@ export type EquationRow = {
   t90?: number;
   d90?: number;
   q90?: number;
+  theta?: number;
+  junction?: "tee" | "yvalve";
+  material?: string;
+  // Absolute roughness of the pipe material (mm).
+  k?: number;
+  // Hazen–Williams coefficient of the pipe material.
+  C?: number;
+  // Fitting library key the row's kfit was taken from.
+  fitting?: string;
+  // Outlet product key; its entry K is used as kfit instead of a fitting.
+  product?: string;
+  // Discharge transition; its exit loss is used as kfit instead of a fitting.
+  transition?: DischargeTransition;
+  // Tailwater depth at the discharge (m).
+  tailwater?: number;
+  // Velocity after the discharge transition (m/s).
+  V2?: number;
+  kfit?: number;
   di?: number;
   V?: number;
   h?: number;
@@ -62,9 +263,86 @@ export type EquationRow = {
   ktotal?: number;
   vp?: number;
   delta_H?: number;
+  // True when delta_H was copied from the previous row for the head profile;
+  // the row has no loss of its own.
+  delta_H_carried?: boolean;
   delta_P?: number;
+  // How the calculated fields were obtained, in calculation order.
+  working?: WorkingStep[];
 };
 
+/**
+ * Σ delta_H along one outlet path (m). A row that only carries the previous
+ * row's delta_H over adds nothing, so every local loss is counted once.
+ */
+export function pathHeadLoss(rows: EquationRow[]): number {
+  let sum = 0;
+  for (const row of rows) {
+    if (row.delta_H_carried) continue;
+    sum += typeof row.delta_H === "number" ? row.delta_H : 0;
+  }
+  return sum;
+}
+
+/**
+ * Straight-passage loss of a combining-flow tee, ported from `tee_main_K` in
+ * components/python/equations.py.
+ *
+ * a     – branch-to-combined area ratio (d90 / d)²
+ * q     – branch-to-combined flow ratio (q90)
+ * theta – branch angle in radians
+ *
+ * The reference's `v` argument is the same area ratio `a`.
+ */
+export function teeMainK(a: number, q: number, theta: number): number {
+  const kSt = teeMainKSt(a, q);
+  return (
+    1 -
+    Math.pow(1 - q, 2) -
+    (1.4 - q) * Math.pow(q, 2) * Math.sin(theta) -
+    kSt * (2 / a) * Math.cos(theta)
+  );
+}
+
+/**
+ * Side-branch loss of a combining-flow tee, ported from `tee_side_K` in
+ * components/python/equations.py. Arguments as for teeMainK().
+ */
+export function teeSideK(a: number, q: number, theta: number): number {
+  const B = teeSideB(a, q);
+  return (
+    B *
+    (1 +
+      Math.pow(q / a, 2) -
+      2 * Math.pow(1 - q, 2) -
+      (2 / a) * Math.pow(q, 2) * Math.cos(theta))
+  );
+}
+
+// Straight-run coefficient of teeMainK().
+function teeMainKSt(a: number, q: number): number {
+  return a > 0.35 ? 0.5 : 0.8 * q;
+}
+
+// Area/flow correction of teeSideK().
+function teeSideB(a: number, q: number): number {
+  if (a > 0.35) {
+    return q > 0.4 ? 0.55 : 0.9 * (1 - q);
+  }
+  return 1;
+}
+
+/**
+ * Leg loss of a Y-valve. Both legs join the combined flow at 45°, so each
+ * one is treated as a side branch with its own flow ratio:
+ *
+ * a – leg-to-combined area ratio (d90 / d)²
+ * q – leg-to-combined flow ratio
+ */
+function yValveK(a: number, q: number): number {
+  return teeSideK(a, q, Math.PI / 4);
+}
+
 export class Calculations {
   // One array per logical path / outlet branch
   private rows: EquationRow[][] = [];
@@ -76,8 +354,21 @@ export class Calculations {
   // `vertical` are computed against this array so they remain stable regardless
   // of how paths are split.
   private canonicalComponents: EquationsComponent[] = [];
+  // Main- and side-branch flows at each tee junction, keyed by tee_ref and
+  // recorded by fillCapacity(). Used to derive the real q90 split ratio.
+  private teeFlowsByRef = new Map<number, { main: number; side: number }>();
+  private headChecks: OutletHeadCheck[] = [];
+  private outletChecks: OutletProductCheck[] = [];
+  private dischargeChecks: DischargeCheck[] = [];
+  private systems: SystemInfo[] = [];
+  // Water properties at the design temperature.
+  private fluid: FluidProperties = waterProperties();
 
   constructor(input: EquationsInput) {
+    if (typeof input.temperature === "number") {
+      this.fluid = waterProperties(input.temperature);
+    }
+
     // Capture a canonical copy of the incoming components *before* we do
     // any logical re-grouping into outlet paths. This is the single source
     // of truth for geometry-derived flags such as `vertical`.
@@ -99,6 +390,7 @@ export class Calculations {
     // Use a fresh copy for all downstream normalization so we never mutate the
     // canonical geometry that vertical relies on.
     this.input = {
+      ...input,
       components: this.canonicalComponents.map((comp) => ({ ...comp })),
     };
 
@@ -106,24 +398,69 @@ export class Calculations {
     const b: EquationsComponent[][] = this.organize(a);
     const c: EquationRow[][] = this.preNormalize(b);
     this.rows = this.normalize(c);
-    console.log(a);
-    console.log(b);
-    console.log(c);
-    console.log(this.rows);
+    if (this.systems.length === 0 && this.rows.length > 0) {
+      this.systems = [
+        {
+          system: 1,
+          name: "System 1",
+          dischargeIndex:
+            this.rows[0].find((r) => r.item === "discharge")?.index ?? 0,
+          paths: this.rows.map((_, i) => i),
+        },
+      ];
+    }
+    this.headChecks = this.checkAvailableHead(b, this.rows, input);
+    this.outletChecks = this.checkOutletProducts(this.canonicalComponents);
+    this.dischargeChecks = this.checkDischarges(this.rows);
   }
 
   /** Public accessor used by the UI/export code. */
   toRows(): EquationRow[][] {
     return this.rows;
   }
+
+  /**
+   * Systems found on the canvas, one per discharge. Component lists without
+   * usable connectivity are reported as a single system.
+   */
+  toSystems(): SystemInfo[] {
+    return this.systems;
+  }
+
+  /** Water properties the rows were calculated with. */
+  getFluid(): FluidProperties {
+    return this.fluid;
+  }
+
+  /** Available-head pass/fail per outlet path, in the same order as toRows(). */
+  toHeadChecks(): OutletHeadCheck[] {
+    return this.headChecks;
+  }
+
+  /** Capacity and required water depth per outlet, in drawing order. */
+  toOutletChecks(): OutletProductCheck[] {
+    return this.outletChecks;
+  }
+
+  /** Velocity reduction per discharge with a configured transition. */
+  toDischargeChecks(): DischargeCheck[] {
+    return this.dischargeChecks;
+  }
   
   private organize(components: EquationsComponent[]): EquationsComponent[][] {
-    // First, normalize tees, capacities, and diameters on the flat component
-    // list. Then split into logical outlet paths, and finally insert reducer
-    // nodes wherever a diameter change happens immediately after a non-reducer
-    // node.
+    // Prefer the real network: build a tree from fromId/toId connectivity
+    // rooted at the discharge and read every outlet path and tee leg from it.
+    const byGraph = this.organizeByGraph(components);
+    if (byGraph) {
+      return this.insertReducersForDiameterChanges(byGraph);
+    }
+
+    // Fallback for component lists without usable connectivity: normalize
+    // tees, capacities, and diameters on the flat drawing-order sequence.
+    // Then split into logical outlet paths, and finally insert reducer nodes
+    // wherever a diameter change happens immediately after a non-reducer node.
     const filled: EquationsComponent[] = this.fillDiameter(
-      this.fillCapacity(this.fillTee(components))
+      this.fillYValveElbows(this.fillCapacity(this.fillTee(components)))
     );
     // Keep a copy with capacities/tees normalized so tee metrics (q90, etc.)
     // can be derived by tee_ref.
@@ -134,6 +471,267 @@ export class Calculations {
     return withReducers;
   }
 
+  /**
+   * Build one component path per outlet from the pipe network itself.
+   *
+   * Every node with two or more downstream pipes is a junction. Its
+   * straight-through leg (collinear with the incoming pipe, else the first
+   * drawn) becomes tee_main and the others tee_side, each followed by the
+   * same fittings the sequence-based fillTee()/fillYValveElbows() add. Flows
+   * are summed over each subtree, so tees inside side branches and branches
+   * drawn out of order are handled like any other.
+   *
+   * Each discharge roots its own system: the connected network it drains.
+   * A discharge already reached from an earlier one belongs to that system.
+   *
+   * Returns null when there is no discharge with connected pipes.
+   */
+  private organizeByGraph(
+    components: EquationsComponent[]
+  ): EquationsComponent[][] | null {
+    const discharges = components
+      .filter((c) => c.component === "node" && c.type === "discharge")
+      .sort(
+        (a, b) =>
+          (a.draw_index ?? Number.MAX_SAFE_INTEGER) -
+          (b.draw_index ?? Number.MAX_SAFE_INTEGER)
+      );
+    if (discharges.length === 0) return null;
+
+    let maxId = -1;
+    for (const c of components) {
+      if (typeof c.id === "number" && c.id > maxId) maxId = c.id;
+    }
+
+    type Junction = {
+      ref: number;
+      kind: "tee" | "yvalve";
+      main: TreeNode;
+      branchAngle: number;
+    };
+    let nextTeeRef = 0;
+    const reached = new Set<number>();
+    const result: EquationsComponent[][] = [];
+
+    for (const discharge of discharges) {
+      if (reached.has(discharge.id)) continue;
+      const tree = buildNetworkTree(components, discharge.id);
+      if (!tree || tree.root.children.length === 0) continue;
+      for (const id of tree.byNodeId.keys()) reached.add(id);
+
+      // Resolve every pipe's diameter/material, inheriting from upstream when
+      // the drawing leaves them blank.
+      const edgeDiameter = new Map<number, number>();
+      const edgeMaterial = new Map<number, string | null>();
+      for (const tn of walkTree(tree.root)) {
+        if (!tn.parentEdge) continue;
+        const upstream = tn.parent?.parentEdge;
+        edgeDiameter.set(
+          tn.parentEdge.id,
+          tn.parentEdge.diameter ??
+            (upstream ? edgeDiameter.get(upstream.id) : undefined) ??
+            0
+        );
+        edgeMaterial.set(
+          tn.parentEdge.id,
+          tn.parentEdge.material ??
+            (upstream ? edgeMaterial.get(upstream.id) : undefined) ??
+            null
+        );
+      }
+      const diameterOf = (edge: EquationsComponent | null | undefined) =>
+        edge ? edgeDiameter.get(edge.id) ?? 0 : 0;
+
+      // Junctions: tee_ref, kind and main leg per branching node.
+      const junctions = new Map<number, Junction>();
+      for (const tn of walkTree(tree.root)) {
+        if (tn.children.length < 2) continue;
+        const kind = tn.node.type === "yvalve" ? "yvalve" : "tee";
+        const ref =
+          typeof tn.node.tee_ref === "number" ? tn.node.tee_ref : nextTeeRef;
+        nextTeeRef = Math.max(nextTeeRef, ref + 1);
+        const main = kind === "yvalve" ? tn.children[0] : this.straightThrough(tn);
+        junctions.set(tn.node.id, {
+          ref,
+          kind,
+          main,
+          // A Y-valve is always a 45° junction.
+          branchAngle:
+            kind === "yvalve"
+              ? 45
+              : typeof tn.node.branchAngle === "number"
+              ? tn.node.branchAngle
+              : DEFAULT_BRANCH_ANGLE,
+        });
+        this.teeFlowsByRef.set(ref, { main: main.flow, side: tn.flow - main.flow });
+      }
+
+      const paths: { path: EquationsComponent[]; order: number }[] = [];
+
+      for (const outlet of walkTree(tree.root)) {
+        if (outlet.node.type !== "outlet") continue;
+        const chain = pathToRoot(outlet);
+        const path: EquationsComponent[] = [];
+
+        chain.forEach((tn, i) => {
+          const next = chain[i + 1];
+          // Nodes take the incoming pipe's size; the discharge takes the first
+          // pipe's.
+          const sizingEdge = tn.parentEdge ?? next?.parentEdge ?? null;
+          const node: EquationsComponent = {
+            ...tn.node,
+            diameter: diameterOf(sizingEdge),
+            material: sizingEdge ? edgeMaterial.get(sizingEdge.id) ?? null : null,
+            capacity:
+              tn.node.type === "outlet"
+                ? tn.node.capacity ?? 0
+                : next
+                ? next.flow
+                : tn.flow,
+          };
+
+          const junction = next ? junctions.get(tn.node.id) : undefined;
+          if (junction && next) {
+            path.push(...this.junctionRows(tn, next, node, junction, diameterOf, () => ++maxId));
+          } else {
+            path.push(node);
+          }
+
+          if (next?.parentEdge) {
+            const edge = next.parentEdge;
+            path.push({
+              ...edge,
+              diameter: diameterOf(edge),
+              material: edgeMaterial.get(edge.id) ?? null,
+              capacity: next.flow,
+            });
+          }
+        });
+
+        const order =
+          typeof outlet.node.draw_index === "number" ? outlet.node.draw_index : paths.length;
+        paths.push({ path, order });
+      }
+
+      if (paths.length === 0) continue;
+
+      // Paths are listed in the order their outlets were drawn. Each is
+      // calculated on its own, so the order does not affect the results.
+      paths.sort((a, b) => a.order - b.order);
+
+      const system = this.systems.length + 1;
+      this.systems.push({
+        system,
+        name: discharge.name?.trim() || `System ${system}`,
+        dischargeIndex:
+          typeof discharge.draw_index === "number" ? discharge.draw_index : 0,
+        paths: paths.map((_, i) => result.length + i),
+      });
+      result.push(...paths.map((p) => p.path));
+    }
+
+    return result.length > 0 ? result : null;
+  }
+
+  /**
+   * Rows for a junction on the way from `tn` to its child `next`: tee_main
+   * or tee_side plus the fittings that leg gets. Each leg carries its own
+   * subtree flow. Junctions with more than two outgoing legs are reported by
+   * the topology validator; their q90 lumps all side legs together.
+   */
+  private junctionRows(
+    tn: TreeNode,
+    next: TreeNode,
+    node: EquationsComponent,
+    junction: { ref: number; kind: "tee" | "yvalve"; main: TreeNode; branchAngle: number },
+    diameterOf: (edge: EquationsComponent | null | undefined) => number,
+    newId: () => number
+  ): EquationsComponent[] {
+    const isMain = next === junction.main;
+    // Y-valve legs and tee side legs compare against their own pipe; the tee
+    // main leg against the (first) side branch.
+    const side = tn.children.find((c) => c !== junction.main)!;
+    const branchDiameter =
+      junction.kind === "tee" && isMain
+        ? diameterOf(side.parentEdge)
+        : diameterOf(next.parentEdge);
+
+    const legFlow = next.flow;
+    const tee: EquationsComponent = {
+      ...node,
+      type: isMain ? "tee_main" : "tee_side",
+      tee_ref: junction.ref,
+      junction: junction.kind,
+      branchAngle: junction.branchAngle,
+      branchDiameter,
+      capacity: legFlow,
+    };
+
+    const fitting = (type: "elbow45" | "elbow90"): EquationsComponent => ({
+      component: "node",
+      id: newId(),
+      type,
+      x: node.x,
+      y: node.y,
+      tee_ref: junction.ref,
+      diameter: node.diameter,
+      material: node.material,
+      capacity: legFlow,
+      // Number the fitting like its junction so the row maps back to it.
+      draw_index: node.draw_index ?? null,
+    });
+
+    if (junction.kind === "yvalve") {
+      // elbow90 on the leg with the largest flow (the main leg on ties).
+      const largest = tn.children.reduce(
+        (max, c) => (c.flow > max.flow ? c : max),
+        junction.main
+      );
+      return [tee, fitting(next === largest ? "elbow90" : "elbow45")];
+    }
+
+    if (!isMain) return [tee, fitting("elbow45")];
+
+    // Main leg turns when the incoming and outgoing pipes differ in
+    // verticality.
+    const inVertical = !!tn.parentEdge && this.isVertical(tn.parentEdge);
+    const outVertical = !!next.parentEdge && this.isVertical(next.parentEdge);
+    return tn.parentEdge && inVertical !== outVertical
+      ? [tee, fitting("elbow90")]
+      : [tee];
+  }
+
+  /**
+   * The child of a junction whose pipe continues in the direction of the
+   * incoming pipe; the first drawn child when none does.
+   */
+  private straightThrough(tn: TreeNode): TreeNode {
+    const parent = tn.parent?.node;
+    const { x, y } = tn.node;
+    if (parent && parent.x != null && parent.y != null && x != null && y != null) {
+      const inX = x - parent.x;
+      const inY = y - parent.y;
+      const inLen = Math.hypot(inX, inY);
+      let best: TreeNode | null = null;
+      let bestCos = 0.99;
+      for (const child of tn.children) {
+        const { x: cx, y: cy } = child.node;
+        if (cx == null || cy == null || inLen === 0) continue;
+        const outX = cx - x;
+        const outY = cy - y;
+        const outLen = Math.hypot(outX, outY);
+        if (outLen === 0) continue;
+        const cos = (inX * outX + inY * outY) / (inLen * outLen);
+        if (cos > bestCos) {
+          best = child;
+          bestCos = cos;
+        }
+      }
+      if (best) return best;
+    }
+    return tn.children[0];
+  }
+
   /**
    * After paths are organized, automatically insert reducer nodes at diameter
    * transitions that occur immediately after a non-reducer node.
@@ -182,6 +780,7 @@ export class Calculations {
               x: curr.x,
               y: curr.y,
               diameter: currD,
+              material: curr.material,
               // Carry the same branch flow through the reducer so downstream
               // Q, velocity, etc. remain consistent.
               capacity: next.capacity ?? curr.capacity ?? 0,
@@ -439,15 +1038,18 @@ export class Calculations {
   private fillDiameter(components: EquationsComponent[]): EquationsComponent[] {
     // Start with the first component's diameter (if any) and propagate it forward
     let current: number = components[1]?.diameter ?? 0;
+    let currentMaterial = components[1]?.material ?? null;
 
     const result = components.map((comp) => {
       const updated = { ...comp };
 
       if (updated.type === "pipe" && updated.diameter != null) {
         current = updated.diameter;
+        currentMaterial = updated.material ?? null;
       }
 
       updated.diameter = current;
+      if (updated.component === "node") updated.material = currentMaterial;
       return updated;
     });
 
@@ -458,21 +1060,40 @@ export class Calculations {
     // Work on a copy to avoid mutating the original input.
     const result: EquationsComponent[] = components.map((c) => ({ ...c }));
 
-    // 1) Normalize tees: turn plain "tee" into "tee_main" and assign a stable
-    // tee_ref if missing.
+    // 1) Normalize tees: turn plain "tee" and "yvalve" into "tee_main" and
+    // assign a stable tee_ref if missing. The original kind is kept in
+    // `junction` so losses and elbows can be chosen per junction type.
     let nextTeeRef = 0;
 
     for (const comp of result) {
-      if (comp.type === "tee") {
+      if (comp.type === "tee" || comp.type === "yvalve") {
         if (comp.tee_ref == null) {
           comp.tee_ref = nextTeeRef++;
         } else {
           nextTeeRef = Math.max(nextTeeRef, comp.tee_ref + 1);
         }
+        comp.junction = comp.type;
         comp.type = "tee_main";
       }
     }
 
+    const branchAngleByRef = new Map<number, number>();
+    const junctionByRef = new Map<number, "tee" | "yvalve">();
+    for (const comp of result) {
+      if (comp.type === "tee_main" && typeof comp.tee_ref === "number") {
+        // A Y-valve is always a 45° junction.
+        branchAngleByRef.set(
+          comp.tee_ref,
+          comp.junction === "yvalve"
+            ? 45
+            : typeof comp.branchAngle === "number"
+            ? comp.branchAngle
+            : DEFAULT_BRANCH_ANGLE
+        );
+        junctionByRef.set(comp.tee_ref, comp.junction ?? "tee");
+      }
+    }
+
     // 2) Assign tee_ref to outlets, in the same order that tee_ref is
     //    assigned to tees. For simple sequences like
     //      discharge → pipe → tee → pipe → outlet → pipe → outlet
@@ -515,6 +1136,8 @@ export class Calculations {
     let indexOffset = 0;
     for (const teeIdx of teeIndexes) {
       const idx = teeIdx + indexOffset;
+      // Y-valve elbows are placed by fillYValveElbows() once flows are known.
+      if (result[idx].junction === "yvalve") continue;
       // Find nearest pipe before and after this tee_main.
       let beforePipeIdx: number | null = null;
       for (let i = idx - 1; i >= 0; i--) {
@@ -584,6 +1207,14 @@ export class Calculations {
         x: outlet.x,
         y: outlet.y,
         tee_ref: outlet.tee_ref ?? null,
+        branchAngle:
+          typeof outlet.tee_ref === "number"
+            ? branchAngleByRef.get(outlet.tee_ref) ?? null
+            : null,
+        junction:
+          typeof outlet.tee_ref === "number"
+            ? junctionByRef.get(outlet.tee_ref) ?? null
+            : null,
         // Inherit the outlet's draw_index so that d90 for tee_side can be
         // derived from the *next* canonical component in drawing order.
         //
@@ -601,6 +1232,9 @@ export class Calculations {
       const teeSideIndex = outletIndex + 1;
       result.splice(teeSideIndex, 0, teeSide);
 
+      // Y-valve legs get their elbows from fillYValveElbows().
+      if (teeSide.junction === "yvalve") continue;
+
       // Always insert an elbow45 immediately after tee_side.
       const elbow45: EquationsComponent = {
         component: "node",
@@ -667,6 +1301,7 @@ export class Calculations {
         const side = sideFlowByRef.get(comp.tee_ref) ?? 0;
         // Capacity on the tee_main itself is main-branch flow only.
         updated.capacity = current;
+        this.teeFlowsByRef.set(comp.tee_ref, { main: current, side });
         // Upstream of the tee, total flow is main + side.
         current = current + side;
         return updated;
@@ -680,6 +1315,67 @@ export class Calculations {
     return resultReversed.reverse();
   }
 
+  /**
+   * Insert the fittings that make up a Y-valve: an elbow90 on the leg that
+   * carries the larger capacity and an elbow45 on the other leg. Runs after
+   * fillCapacity() so tee_main/tee_side capacities hold the per-leg flows.
+   */
+  private fillYValveElbows(components: EquationsComponent[]): EquationsComponent[] {
+    const result: EquationsComponent[] = components.map((c) => ({ ...c }));
+
+    let maxId = -1;
+    for (const c of result) {
+      if (typeof c.id === "number" && c.id > maxId) {
+        maxId = c.id;
+      }
+    }
+
+    const legsByRef = new Map<number, { main?: number; side?: number }>();
+    result.forEach((c, idx) => {
+      if (c.junction !== "yvalve" || typeof c.tee_ref !== "number") return;
+      const legs = legsByRef.get(c.tee_ref) ?? {};
+      if (c.type === "tee_main") legs.main = idx;
+      if (c.type === "tee_side") legs.side = idx;
+      legsByRef.set(c.tee_ref, legs);
+    });
+
+    const insertions: { afterIdx: number; type: "elbow45" | "elbow90" }[] = [];
+    for (const legs of legsByRef.values()) {
+      const mainQ = legs.main != null ? result[legs.main].capacity ?? 0 : 0;
+      const sideQ = legs.side != null ? result[legs.side].capacity ?? 0 : 0;
+      // On equal flows the straight-through (main) leg takes the elbow90.
+      const mainIsLarger = mainQ >= sideQ;
+      if (legs.main != null) {
+        insertions.push({ afterIdx: legs.main, type: mainIsLarger ? "elbow90" : "elbow45" });
+      }
+      if (legs.side != null) {
+        insertions.push({ afterIdx: legs.side, type: mainIsLarger ? "elbow45" : "elbow90" });
+      }
+    }
+
+    // Splice from the back so earlier indices stay valid.
+    insertions.sort((a, b) => b.afterIdx - a.afterIdx);
+    for (const { afterIdx, type } of insertions) {
+      const leg = result[afterIdx];
+      const elbow: EquationsComponent = {
+        component: "node",
+        id: ++maxId,
+        type,
+        fromId: leg.id,
+        toId: result[afterIdx + 1]?.id,
+        x: leg.x,
+        y: leg.y,
+        tee_ref: leg.tee_ref,
+        capacity: leg.capacity ?? 0,
+        // Number the elbow like its Y-valve so the row maps back to that node.
+        draw_index: leg.draw_index ?? null,
+      };
+      result.splice(afterIdx + 1, 0, elbow);
+    }
+
+    return result;
+  }
+
   private splitByTee(components: EquationsComponent[]) {
     const result: EquationsComponent[][] = [];
     let current: EquationsComponent[] = [];
@@ -706,7 +1402,49 @@ export class Calculations {
   private preNormalize(components: EquationsComponent[][]): EquationRow[][] {
     const outletRows: EquationRow[][] = components.map((compSet) => {
       return compSet.map((comp, index) => {
-        const di = this.getDi(comp.diameter ?? 0);
+        const material = comp.material ?? this.input.material ?? DEFAULT_MATERIAL;
+        const size = resolvePipeSize(
+          material,
+          comp.diameter ?? 0,
+          this.input.materials ?? PIPE_MATERIALS
+        );
+        const di = size.id / 1000;
+        const product =
+          comp.type === "outlet"
+            ? findOutletProduct(comp.product, this.outletCatalog())
+            : undefined;
+        const transition =
+          comp.type === "discharge" && comp.discharge ? comp.discharge : undefined;
+        const V = this.getVelocity(comp.capacity ?? 0, di);
+        const working: WorkingStep[] = [
+          {
+            quantity: "V",
+            formula: "0.004·Q/(π·di²)",
+            inputs: { Q: comp.capacity ?? 0, di },
+            result: V,
+            note: `di from the ${material} catalog for d = ${comp.diameter ?? 0} mm`,
+          },
+        ];
+        if (transition) {
+          const D = (transition.gravityDiameter ?? 0) / 1000;
+          working.push(
+            transition.transition === "expansion"
+              ? {
+                  quantity: "kfit",
+                  formula: "(1 − (di/D)²)²",
+                  inputs: { di, D },
+                  result: dischargeExitK(transition, di),
+                  note: "Borda–Carnot loss into the gravity pipe; 0 when D ≤ di",
+                }
+              : {
+                  quantity: "kfit",
+                  formula: "1",
+                  inputs: {},
+                  result: 1,
+                  note: "full velocity head lost at the discharge",
+                }
+          );
+        }
 
         // Prefer a stable draw_index provided by the canvas layer so that
         // the EquationRow index stays aligned with the on‑canvas numbering,
@@ -732,18 +1470,33 @@ export class Calculations {
           t90: this.getT90(comp),
           d90: this.getD90(comp, index),
           q90: this.getQ90(comp),
+          theta: this.getTheta(comp),
+          junction:
+            comp.type === "tee_main" || comp.type === "tee_side"
+              ? comp.junction ?? "tee"
+              : undefined,
+          material,
+          k: size.roughness,
+          C: size.hazenWilliamsC,
+          fitting: product || transition ? undefined : this.getFitting(comp)?.key,
+          product: product?.key,
+          transition: transition?.transition,
+          tailwater: transition ? dischargeTailwater(transition) : undefined,
+          V2: transition ? downstreamVelocity(transition, V, di) : undefined,
           di,
-          V: this.getVelocity(comp.capacity ?? 0, di),
+          V,
           h: 0,
           Re: 0,
           f: 0,
           a: 0,
           ktee: 0,
+          kfit: transition ? dischargeExitK(transition, di) : 0,
           kred: 0,
           ktotal: 0,
           vp: 0,
           delta_H: 0,
           delta_P: 0,
+          working,
         };
       });
     });
@@ -753,7 +1506,25 @@ export class Calculations {
   
   private normalize(compSets: EquationRow[][]): EquationRow[][] {
     const result: EquationRow[][] = compSets.map((compSet) => {
-      const updated: EquationRow[] = compSet.map((row) => ({ ...row }));
+      const updated: EquationRow[] = compSet.map((row) => ({
+        ...row,
+        working: [...(row.working ?? [])],
+      }));
+      const record = (
+        c: EquationRow,
+        quantity: keyof EquationRow,
+        formula: string,
+        inputs: Record<string, number>,
+        note?: string
+      ) => {
+        c.working!.push({
+          quantity,
+          formula,
+          inputs,
+          result: Number(c[quantity] ?? 0),
+          ...(note ? { note } : {}),
+        });
+      };
 
       // Cumulative elevation head and area ratio
       for (let i = 1; i < updated.length; i++) {
@@ -765,13 +1536,21 @@ export class Calculations {
         const prevH = prev.h ?? 0;
 
         curr.h = (curr.h ?? 0) + (prevH + prevL * prevVertical);
+        record(
+          curr,
+          "h",
+          "h_prev + L_prev·vertical_prev",
+          { h_prev: prevH, L_prev: prevL, vertical_prev: prevVertical }
+        );
 
         if (i === updated.length - 1) {
           curr.a = prev.a ?? 0;
+          record(curr, "a", "a_prev", { a_prev: prev.a ?? 0 }, "last row keeps the previous ratio");
         } else {
           const nextDi = updated[i + 1].di ?? 0;
           const currDi = curr.di ?? 0;
           curr.a = nextDi === 0 ? 0 : Math.pow(currDi / nextDi, 2);
+          record(curr, "a", "(di/di_next)²", { di: currDi, di_next: nextDi });
         }
       }
 
@@ -779,19 +1558,64 @@ export class Calculations {
       for (const c of updated) {
         const di = c.di ?? 0;
         const V = c.V ?? 0;
-        c.Re = di === 0 ? 0 : (di * V) / 0.000001;
-        c.vp = (V * V) / (2 * 9.81);
+        c.Re = di === 0 ? 0 : (di * V) / this.fluid.viscosity;
+        c.vp = (V * V) / (2 * GRAVITY);
+        record(c, "Re", "di·V/ν", { di, V, ν: this.fluid.viscosity });
+        record(c, "vp", "V²/(2·g)", { V, g: GRAVITY });
+      }
+
+      // Fitting loss coefficient from the outlet product or the library entry
+      // chosen in preNormalize
+      const library = this.input.fittingLibrary ?? FITTING_LIBRARY;
+      for (const c of updated) {
+        // Exit loss of a discharge transition was set in preNormalize.
+        if (c.transition) continue;
+        const product = findOutletProduct(c.product, this.outletCatalog());
+        const entry = c.fitting
+          ? library.find((e) => e.key === c.fitting)
+          : undefined;
+        c.kfit = product
+          ? product.k
+          : entry
+          ? fittingK(entry, {
+              d: c.d ?? 0,
+              di: c.di ?? 0,
+              V: c.V ?? 0,
+              Re: c.Re ?? 0,
+            })
+          : 0;
+        if (product) {
+          record(c, "kfit", "K_product", { K_product: product.k }, product.name);
+        } else if (entry) {
+          record(
+            c,
+            "kfit",
+            typeof entry.k === "number" ? "K_fitting" : "K_fitting(d, di, V, Re)",
+            typeof entry.k === "number"
+              ? { K_fitting: entry.k }
+              : { d: c.d ?? 0, di: c.di ?? 0, V: c.V ?? 0, Re: c.Re ?? 0 },
+            entry.name
+          );
+        }
       }
 
       // Darcy friction factor (only for pipes)
+      const frictionModel = this.input.frictionModel ?? DEFAULT_FRICTION_MODEL;
       for (const c of updated) {
         if (c.item === "pipe") {
-          const Q = c.Q ?? 0;
-          const d = c.d ?? 0;
+          // Roughness and internal diameter both in mm.
+          const diMm = (c.di ?? 0) * 1000;
           const Re = c.Re ?? 0;
-          if (d > 0 && Re > 0) {
-            const inner = 0.86 * Math.log(0.2 / (d * 3.7) + 5.74 / Math.pow(Re, 0.9));
-            c.f = 1 / Math.pow(inner, 2);
+          if (diMm > 0 && Re > 0) {
+            const friction = frictionFactor(frictionModel, {
+              Re,
+              k: c.k ?? 0,
+              di: diMm,
+              V: c.V ?? 0,
+              C: c.C ?? 0,
+            });
+            c.f = friction.f;
+            record(c, "f", friction.formula, friction.inputs, friction.note);
           } else {
             c.f = 0;
           }
@@ -808,38 +1632,64 @@ export class Calculations {
         }
       }
 
-      // Reducer loss coefficient
+      // Reducer loss coefficient (the discharge ignores it, so its working
+      // skips the step)
       for (const c of updated) {
         const a = c.a ?? 0;
+        const explain = (formula: string, note: string) => {
+          if (c.item !== "discharge") record(c, "kred", formula, { a }, note);
+        };
         if (a > 1) {
           c.kred = Math.pow(a - 1, 2);
+          explain("(a − 1)²", "a > 1");
         } else if (a === 1) {
           c.kred = 0;
+          explain("0", "a = 1");
         } else {
           c.kred = -0.513 * a + 0.51;
+          explain("0.51 − 0.513·a", "a < 1");
         }
       }
 
-      // Tee loss coefficient
-      const T = 1; // Placeholder constant to avoid undefined; domain value can replace this.
+      // Tee loss coefficient (angle-aware combining-flow model)
       for (const c of updated) {
         if (c.item && c.item.startsWith("tee")) {
           const d90 = c.d90 ?? 0;
           const d = c.d ?? 0;
-          if (d === 0) continue;
+          if (d === 0 || d90 === 0) continue;
           const a = Math.pow(d90 / d, 2);
-
-          if (c.t90 === 1) {
-            const q90 = c.q90 ?? 0;
-            const multiplier = a > 0.35 ? 0.55 : 1;
-
-            c.ktee =
-              multiplier *
-              (1 + Math.pow(q90 / a, 2) - 2 * Math.pow(1 - q90, 2) - (1.414 * Math.pow(q90, 2)) / T);
-          } else if (c.t90 === 0.5) {
-            if (d90 !== 0) {
-              c.ktee = 0.75 - 0.35 / a;
-            }
+          const q = c.q90 ?? 0;
+          const theta = ((c.theta ?? DEFAULT_BRANCH_ANGLE) * Math.PI) / 180;
+
+          if (c.junction === "yvalve") {
+            // Each Y-valve leg carries its own share of the combined flow.
+            const leg = c.item === "tee_main" ? 1 - q : q;
+            c.ktee = yValveK(a, leg);
+            record(
+              c,
+              "ktee",
+              "B·(1 + (q/a)² − 2·(1 − q)² − (2/a)·q²·cos θ)",
+              { a, q: leg, θ: 45, B: teeSideB(a, leg) },
+              "Y-valve leg as a 45° side branch; a = (d90/d)², θ in degrees"
+            );
+          } else if (c.item === "tee_main") {
+            c.ktee = teeMainK(a, q, theta);
+            record(
+              c,
+              "ktee",
+              "1 − (1 − q)² − (1.4 − q)·q²·sin θ − kSt·(2/a)·cos θ",
+              { a, q, θ: c.theta ?? DEFAULT_BRANCH_ANGLE, kSt: teeMainKSt(a, q) },
+              "combining tee, main run; a = (d90/d)², θ in degrees"
+            );
+          } else if (c.item === "tee_side") {
+            c.ktee = teeSideK(a, q, theta);
+            record(
+              c,
+              "ktee",
+              "B·(1 + (q/a)² − 2·(1 − q)² − (2/a)·q²·cos θ)",
+              { a, q, θ: c.theta ?? DEFAULT_BRANCH_ANGLE, B: teeSideB(a, q) },
+              "combining tee, side branch; a = (d90/d)², θ in degrees"
+            );
           }
         }
       }
@@ -852,27 +1702,31 @@ export class Calculations {
       for (const c of updated) {
         const vp = c.vp ?? 0;
 
-        // For the discharge node, force area ratio and ktotal to 1 so it
-        // behaves as a pure reference/entry point regardless of upstream
-        // geometry.
+        // For the discharge node, force the area ratio to 1 and use only the
+        // discharge fitting K (1 by default) or the exit loss of its gravity
+        // transition, regardless of upstream geometry.
         if (c.item === "discharge") {
           c.a = 1;
-          c.ktotal = 1;
+          c.ktotal = c.kfit ?? 1;
           c.delta_H = c.ktotal * vp;
+          record(c, "ktotal", "kfit", { kfit: c.ktotal }, "discharge uses its exit loss only");
+          record(c, "delta_H", "ktotal·vp", { ktotal: c.ktotal, vp });
           continue;
         }
 
         const f = c.f ?? 0;
         const L = c.L ?? 0;
         const di = c.di ?? 0;
-        const elbow = c.elbow ?? 0;
+        const kfit = c.kfit ?? 0;
         const kred = c.kred ?? 0;
         const ktee = c.ktee ?? 0;
 
         const major = di === 0 ? 0 : f * (L / di);
-        const minor = elbow * 0.2 + kred + ktee;
+        const minor = kfit + kred + ktee;
         c.ktotal = major + minor;
         c.delta_H = c.ktotal * vp;
+        record(c, "ktotal", "f·L/di + kfit + kred + ktee", { f, L, di, kfit, kred, ktee });
+        record(c, "delta_H", "ktotal·vp", { ktotal: c.ktotal, vp });
       }
 
       // Ensure the final component reports the cumulative head loss up to that
@@ -884,12 +1738,28 @@ export class Calculations {
         const prev = updated[updated.length - 2];
         if ((last.delta_H ?? 0) === 0) {
           last.delta_H = prev.delta_H ?? 0;
+          last.delta_H_carried = true;
+          record(
+            last,
+            "delta_H",
+            "delta_H_prev",
+            { delta_H_prev: last.delta_H },
+            "no local loss; previous row carried over"
+          );
         }
       }
 
-      // Pressure loss accumulation
+      // Pressure loss accumulation, starting from the tailwater pressure at
+      // the discharge (zero for a free outfall).
       if (updated.length > 0) {
-        updated[0].delta_P = updated[0].delta_P ?? 0;
+        updated[0].delta_P = updated[0].tailwater ?? updated[0].delta_P ?? 0;
+        record(
+          updated[0],
+          "delta_P",
+          "tailwater",
+          { tailwater: updated[0].delta_P },
+          "pressure at the discharge"
+        );
       }
       for (let i = 1; i < updated.length; i++) {
         const prev = updated[i - 1];
@@ -906,6 +1776,19 @@ export class Calculations {
           prevDeltaH +
           (prevH - currH) +
           (prevVp - currVp);
+        record(
+          curr,
+          "delta_P",
+          "delta_P_prev + delta_H_prev + (h_prev − h) + (vp_prev − vp)",
+          {
+            delta_P_prev: prevDeltaP,
+            delta_H_prev: prevDeltaH,
+            h_prev: prevH,
+            h: currH,
+            vp_prev: prevVp,
+            vp: currVp,
+          }
+        );
       }
 
       return updated;
@@ -914,6 +1797,107 @@ export class Calculations {
     return result;
   }
 
+  private checkAvailableHead(
+    paths: EquationsComponent[][],
+    rows: EquationRow[][],
+    input: EquationsInput
+  ): OutletHeadCheck[] {
+    const finite = (v: number | null | undefined) =>
+      typeof v === "number" && Number.isFinite(v) ? v : undefined;
+
+    const checks: OutletHeadCheck[] = [];
+    paths.forEach((path, pathIdx) => {
+      const pathRows = rows[pathIdx] ?? [];
+      // A tee_side may follow the outlet it was paired with, so search from
+      // the end rather than assuming the outlet is the last component.
+      const outletPos = path.map((comp) => comp.type).lastIndexOf("outlet");
+      if (outletPos < 0) return;
+      const outlet = path[outletPos];
+      const discharge = path.find((comp) => comp.type === "discharge");
+
+      const outletLevel = finite(outlet.elevation) ?? finite(input.roofLevel);
+      const dischargeLevel =
+        finite(discharge?.elevation) ?? finite(input.dischargeLevel);
+
+      const headLoss = pathHeadLoss(pathRows);
+
+      // Without both levels, fall back to the cumulative vertical pipe length
+      // normalize() builds up to the outlet. Tailwater at the discharge backs
+      // up against the system and takes off the same height.
+      const hasDatum = outletLevel !== undefined && dischargeLevel !== undefined;
+      const tailwater = dischargeTailwater(discharge?.discharge ?? undefined);
+      const availableHead =
+        (hasDatum ? outletLevel - dischargeLevel : pathRows[outletPos]?.h ?? 0) -
+        tailwater;
+      const residualHead = availableHead - headLoss;
+
+      checks.push({
+        pathIndex: pathIdx + 1,
+        drawIndex: pathRows[outletPos]?.index ?? outletPos + 1,
+        source: hasDatum ? "datum" : "geometry",
+        outletLevel,
+        dischargeLevel,
+        availableHead,
+        tailwater,
+        headLoss,
+        residualHead,
+        pass: residualHead >= 0,
+      });
+    });
+
+    return checks;
+  }
+
+  private checkDischarges(rows: EquationRow[][]): DischargeCheck[] {
+    const checks: DischargeCheck[] = [];
+    const seen = new Set<number>();
+    for (const path of rows) {
+      const row = path.find((r) => r.item === "discharge");
+      if (!row?.transition || seen.has(row.index)) continue;
+      seen.add(row.index);
+
+      const downstream = row.V2 ?? 0;
+      const gravity = row.transition !== "free";
+      checks.push({
+        drawIndex: row.index,
+        transition: row.transition,
+        exitK: row.kfit ?? 0,
+        velocity: row.V ?? 0,
+        downstreamVelocity: downstream,
+        maxVelocity: gravity ? DEFAULT_MAX_GRAVITY_VELOCITY : undefined,
+        tailwater: row.tailwater ?? 0,
+        pass: gravity ? downstream <= DEFAULT_MAX_GRAVITY_VELOCITY : undefined,
+      });
+    }
+    return checks;
+  }
+
+  private checkOutletProducts(
+    components: EquationsComponent[]
+  ): OutletProductCheck[] {
+    const checks: OutletProductCheck[] = [];
+    components.forEach((comp, idx) => {
+      if (comp.component !== "node" || comp.type !== "outlet") return;
+      const capacity = comp.capacity ?? 0;
+      const product = findOutletProduct(comp.product, this.outletCatalog());
+
+      checks.push({
+        drawIndex:
+          typeof comp.draw_index === "number" ? comp.draw_index : idx + 1,
+        product: product?.key,
+        capacity,
+        maxCapacity: product?.maxCapacity,
+        waterDepth: product ? requiredWaterDepth(product, capacity) : undefined,
+        pass: !product || capacity <= product.maxCapacity,
+      });
+    });
+    return checks;
+  }
+
+  private outletCatalog(): OutletProduct[] {
+    return this.input.outletProducts ?? OUTLET_PRODUCTS;
+  }
+
   private isVertical(comp: EquationsComponent): boolean {
     if (comp.type !== "pipe") return false;
 
@@ -969,6 +1953,18 @@ export class Calculations {
     return 0;
   }
 
+  private getFitting(comp: EquationsComponent): FittingEntry | undefined {
+    if (comp.component !== "node") return undefined;
+    const kind = fittingKindOf(comp.type);
+    if (!kind) return undefined;
+    return resolveFitting(
+      kind,
+      comp.fitting,
+      this.input.fittings,
+      this.input.fittingLibrary ?? FITTING_LIBRARY
+    );
+  }
+
   private getT90(comp: EquationsComponent): number {
     if (comp.type === "tee_main") return 1;
     if (comp.type === "tee_side") return 0.5;
@@ -980,6 +1976,10 @@ export class Calculations {
       return 0;
     }
 
+    if (typeof comp.branchDiameter === "number") {
+      return comp.branchDiameter;
+    }
+
     const drawIndex =
       typeof comp.draw_index === "number" && !Number.isNaN(comp.draw_index)
         ? comp.draw_index
@@ -1001,17 +2001,26 @@ export class Calculations {
   }
 
   private getQ90(comp: EquationsComponent): number {
-    // For now, use fixed q90 values by tee role so the UI matches the
-    // desired behavior:
-    // - tee_main: q90 = 0.5
-    // - tee_side: q90 = 1
-    if (comp.type === "tee_main") return 0.5;
-    if (comp.type === "tee_side") return 1;
-    return 0;
+    // q90 is the branch-to-combined flow ratio at the junction, Q_side / Q,
+    // where Q = Q_main + Q_side is the flow upstream of the tee. Both rows of
+    // a tee (tee_main and tee_side) share the same ratio for a given tee_ref.
+    if (comp.type !== "tee_main" && comp.type !== "tee_side") return 0;
+    if (typeof comp.tee_ref !== "number") return 0;
+
+    const flows = this.teeFlowsByRef.get(comp.tee_ref);
+    if (!flows) return 0;
+
+    const combined = flows.main + flows.side;
+    if (combined <= 0) return 0;
+    return flows.side / combined;
   }
 
-  private getDi(diameter: number): number {
-    return (0.922 * diameter) / 1000;
+  private getTheta(comp: EquationsComponent): number {
+    if (comp.type !== "tee_main" && comp.type !== "tee_side") return 0;
+    if (comp.junction === "yvalve") return 45;
+    return typeof comp.branchAngle === "number"
+      ? comp.branchAngle
+      : DEFAULT_BRANCH_ANGLE;
   }
 
   private getVelocity(Q: number, di: number): number {
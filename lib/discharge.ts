@@ -0,0 +1,66 @@
+/**
+ * How a siphonic system hands over to gravity drainage at its discharge:
+ * - "free": free outfall to atmosphere; the whole velocity head is lost.
+ * - "expansion": sudden expansion into a larger gravity pipe.
+ * - "manhole": discharge into a manhole or chamber where the flow comes to
+ *   rest.
+ */
+export type DischargeTransition = "free" | "expansion" | "manhole";
+
+export const DISCHARGE_TRANSITION_LABELS: Record<DischargeTransition, string> = {
+  free: "Free outfall",
+  expansion: "Expansion into gravity pipe",
+  manhole: "Manhole",
+};
+
+/** Highest velocity allowed in the gravity pipe after the transition (m/s). */
+export const DEFAULT_MAX_GRAVITY_VELOCITY = 2.5;
+
+export type DischargeConfig = {
+  transition: DischargeTransition;
+  // Internal diameter of the gravity pipe (mm); expansion only.
+  gravityDiameter?: number | null;
+  // Downstream water depth above the discharge point (m). Ignored for a free
+  // outfall.
+  tailwater?: number | null;
+};
+
+/**
+ * Exit loss coefficient, referred to the velocity in the last siphonic pipe
+ * of internal diameter `di` (m). An expansion uses the Borda–Carnot loss
+ * (1 − (d/D)²)²; a free outfall or manhole loses the full velocity head.
+ */
+export function dischargeExitK(config: DischargeConfig, di: number): number {
+  if (config.transition !== "expansion") return 1;
+  const D = (config.gravityDiameter ?? 0) / 1000;
+  if (di <= 0 || D <= di) return 0;
+  return Math.pow(1 - Math.pow(di / D, 2), 2);
+}
+
+/**
+ * Velocity just downstream of the transition (m/s) for a siphonic velocity
+ * `V` in a pipe of internal diameter `di` (m). A free outfall keeps its
+ * velocity; a manhole brings the flow to rest.
+ */
+export function downstreamVelocity(
+  config: DischargeConfig,
+  V: number,
+  di: number
+): number {
+  switch (config.transition) {
+    case "manhole":
+      return 0;
+    case "expansion": {
+      const D = (config.gravityDiameter ?? 0) / 1000;
+      return D > di ? V * Math.pow(di / D, 2) : V;
+    }
+    default:
+      return V;
+  }
+}
+
+/** Tailwater depth (m) that pushes back on the system; none for a free outfall. */
+export function dischargeTailwater(config: DischargeConfig | undefined): number {
+  if (!config || config.transition === "free") return 0;
+  return Math.max(0, config.tailwater ?? 0);
+}
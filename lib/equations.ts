@@ -1,3 +1,16 @@
+import { DEFAULT_WATER_TEMPERATURE, GRAVITY, waterProperties } from "@/lib/fluid";
+import {
+  fittingK,
+  fittingKindOf,
+  resolveFitting,
+  type FittingContext,
+} from "@/lib/fittings";
+import {
+  DEFAULT_FRICTION_MODEL,
+  frictionFactor,
+  type FrictionModel,
+} from "@/lib/friction";
+
 export type PressureLoss = {
   deltaP: number;
   deltaH: number;
@@ -17,8 +30,16 @@ export type EquationsComponent = {
 
 export interface EquationsInput {
   components: EquationsComponent[];
+  // Water temperature (°C); defaults to DEFAULT_WATER_TEMPERATURE.
+  temperature?: number | null;
+  // Pipe friction factor formulation; defaults to DEFAULT_FRICTION_MODEL.
+  frictionModel?: FrictionModel | null;
 }
 
+// Commercial steel, the only pipe this model knows.
+const ROUGHNESS_MM = 0.045;
+const HAZEN_WILLIAMS_C = 120;
+
 export type NodeComponent = {
   component: "node";
   x?: number;
@@ -67,16 +88,17 @@ export type EquationRow = {
 export class Equations {
   private data: (NodeComponent | EdgeComponent)[] = [];
 
-  private readonly K_ELBOW_45: number = 0.2;
-  private readonly K_ELBOW_90: number = 0.4;
-  private readonly K_OUTLET: number = 0.0;
-  private readonly K_DISCHARGE: number = 1.0;
-
-  private readonly g: number = 9.81; // m/s^2
-  private readonly rho: number = 1000; // kg/m^3 (water)
-  private readonly viscosity: number = 1e-6; // m^2/s (kinematic)
+  private readonly g: number = GRAVITY; // m/s^2
+  private readonly rho: number; // kg/m^3 (water)
+  private readonly viscosity: number; // m^2/s (kinematic)
+  private readonly frictionModel: FrictionModel;
 
   constructor(input: EquationsInput) {
+    const fluid = waterProperties(input.temperature ?? DEFAULT_WATER_TEMPERATURE);
+    this.rho = fluid.density;
+    this.viscosity = fluid.viscosity;
+    this.frictionModel = input.frictionModel ?? DEFAULT_FRICTION_MODEL;
+
     // Treat the incoming component array as an ordered 1D stream in drawing
     // order. We no longer reverse the data; all indices and capacities flow in
     // the same direction the user drew the components.
@@ -248,7 +270,12 @@ export class Equations {
         const Qnode = node.capacity;
         const di = node.diameter_in;
         const V = this.velocity(Qnode, di); // Per-fitting velocity based on local inlet diameter.
-        const K = this.minorLossK(node.ctype);
+        const K = this.minorLossK(node.ctype, {
+          d: di,
+          di: di / 1000,
+          V,
+          Re: this.reynoldsNumber(V, di / 1000),
+        });
         const { deltaP, deltaH } = this.minorPressureLoss(K, V);
 
         node.velocity = V;
@@ -266,7 +293,7 @@ export class Equations {
     }
 
     const Re = this.reynoldsNumber(V, di);
-    const f = this.frictionFactor(di, Re);
+    const f = this.frictionFactor(di, Re, V);
     const deltaP = f * (L / di) * 0.5 * this.rho * V * V;
     const deltaH = deltaP / (this.rho * this.g);
     return { deltaP, deltaH };
@@ -282,19 +309,11 @@ export class Equations {
     return { deltaP, deltaH };
   }
 
-  private minorLossK(ctype: string): number {
-    switch (ctype) {
-      case "elbow45":
-        return this.K_ELBOW_45;
-      case "elbow90":
-        return this.K_ELBOW_90;
-      case "outlet":
-        return this.K_OUTLET;
-      case "discharge":
-        return this.K_DISCHARGE;
-      default:
-        return 0;
-    }
+  private minorLossK(ctype: string, ctx: FittingContext): number {
+    // Fitting K values come from the shared library defaults.
+    const kind = fittingKindOf(ctype);
+    const entry = kind ? resolveFitting(kind, null) : undefined;
+    return entry ? fittingK(entry, ctx) : 0;
   }
 
   // Q_lps: capacity in L/s, di_mm: diameter in millimetres
@@ -313,14 +332,18 @@ export class Equations {
     return (V * di) / this.viscosity;
   }
 
-  private frictionFactor(di: number, Re: number): number {
+  private frictionFactor(di: number, Re: number, V: number): number {
     if (di <= 0 || Re <= 0) {
       return 0.02; // nominal turbulent default
     }
 
-    const roughness = 4.5e-5; // m, typical commercial steel
-    const term = roughness / (3.7 * di) + 5.74 / Math.pow(Re, 0.9);
-    const f = 1 / Math.pow(0.86 * Math.log(term), 2);
+    const { f } = frictionFactor(this.frictionModel, {
+      Re,
+      k: ROUGHNESS_MM,
+      di: di * 1000,
+      V: Math.abs(V),
+      C: HAZEN_WILLIAMS_C,
+    });
     return isFinite(f) && f > 0 ? f : 0.02;
   }
 }
@@ -0,0 +1,94 @@
+export type FittingKind = "elbow45" | "elbow90" | "outlet" | "discharge" | "coupling";
+
+/** Inputs a K formula may depend on. */
+export type FittingContext = {
+  // Nominal diameter (mm).
+  d: number;
+  // Internal diameter (m).
+  di: number;
+  V: number;
+  Re: number;
+};
+
+export type FittingEntry = {
+  key: string;
+  name: string;
+  kind: FittingKind;
+  // Fixed loss coefficient, or a formula evaluated per row.
+  k: number | ((ctx: FittingContext) => number);
+};
+
+// Swept-bend correction for 90° bends with bend radius R = 1.5·D, scaled
+// with the Darcy friction of a smooth pipe at the row's Reynolds number.
+function sweptBend90(ctx: FittingContext): number {
+  if (ctx.Re <= 0) return 0.3;
+  const fSmooth = 0.316 / Math.pow(ctx.Re, 0.25);
+  return 14 * fSmooth;
+}
+
+export const FITTING_LIBRARY: FittingEntry[] = [
+  { key: "elbow45_standard", name: "45° elbow (standard)", kind: "elbow45", k: 0.2 },
+  { key: "elbow45_swept", name: "45° swept bend", kind: "elbow45", k: 0.15 },
+  { key: "elbow45_short", name: "45° short-radius elbow", kind: "elbow45", k: 0.3 },
+  { key: "elbow90_standard", name: "90° elbow (standard)", kind: "elbow90", k: 0.4 },
+  { key: "elbow90_swept", name: "90° swept bend (R = 1.5D)", kind: "elbow90", k: sweptBend90 },
+  { key: "elbow90_short", name: "90° short-radius elbow", kind: "elbow90", k: 0.9 },
+  { key: "outlet_none", name: "Outlet (no loss)", kind: "outlet", k: 0 },
+  { key: "outlet_generic", name: "Outlet (generic siphonic)", kind: "outlet", k: 0.5 },
+  { key: "discharge_free", name: "Discharge (exit loss)", kind: "discharge", k: 1.0 },
+  { key: "coupling_none", name: "Joint (no loss)", kind: "coupling", k: 0 },
+  { key: "coupling_electrofusion", name: "Electrofusion coupling", kind: "coupling", k: 0.05 },
+];
+
+/** Library entry used for each kind when neither node nor project picks one. */
+export const DEFAULT_FITTINGS: Record<FittingKind, string> = {
+  elbow45: "elbow45_standard",
+  elbow90: "elbow90_standard",
+  outlet: "outlet_none",
+  discharge: "discharge_free",
+  coupling: "coupling_none",
+};
+
+/** Project-level choice of library entry per fitting kind. */
+export type FittingSelection = Partial<Record<FittingKind, string>>;
+
+/** Fitting kind of a node type, or null for components without a fitting K. */
+export function fittingKindOf(type: string | null | undefined): FittingKind | null {
+  switch (type) {
+    case "elbow45":
+    case "elbow90":
+    case "outlet":
+    case "discharge":
+      return type;
+    case undefined:
+    case null:
+    case "":
+      return "coupling";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pick the library entry for a node: its own choice if it matches the node's
+ * kind, then the project choice, then the built-in default.
+ */
+export function resolveFitting(
+  kind: FittingKind,
+  nodeChoice: string | null | undefined,
+  project: FittingSelection = {},
+  library: FittingEntry[] = FITTING_LIBRARY
+): FittingEntry | undefined {
+  const byKey = (key: string | null | undefined) =>
+    key ? library.find((e) => e.key === key && e.kind === kind) : undefined;
+  return (
+    byKey(nodeChoice) ??
+    byKey(project[kind]) ??
+    byKey(DEFAULT_FITTINGS[kind]) ??
+    library.find((e) => e.kind === kind)
+  );
+}
+
+export function fittingK(entry: FittingEntry, ctx: FittingContext): number {
+  return typeof entry.k === "number" ? entry.k : entry.k(ctx);
+}
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { type EquationsComponent } from "@/lib/calculations";
+import { solveFlowDistribution } from "@/lib/flowSolver";
+
+// Discharge, a vertical stack to a tee and two outlets of 6 and 3 L/s.
+function twoOutlets(
+  overrides: { tailwater?: number; capacity5?: number } = {}
+): EquationsComponent[] {
+  const components: EquationsComponent[] = [
+    {
+      component: "node",
+      id: 1,
+      x: 0,
+      y: 200,
+      type: "discharge",
+      discharge:
+        overrides.tailwater !== undefined
+          ? { transition: "manhole", tailwater: overrides.tailwater }
+          : null,
+    },
+    { component: "edge", id: 2, fromId: 1, toId: 3, type: "pipe", diameter: 90, length: 5 },
+    { component: "node", id: 3, x: 0, y: 0, type: "tee" },
+    { component: "edge", id: 4, fromId: 3, toId: 5, type: "pipe", diameter: 75, length: 8 },
+    { component: "node", id: 5, x: 100, y: 0, type: "outlet", capacity: overrides.capacity5 ?? 6 },
+    { component: "edge", id: 6, fromId: 3, toId: 7, type: "pipe", diameter: 56, length: 4 },
+    { component: "node", id: 7, x: 0, y: -100, type: "outlet", capacity: 3 },
+  ];
+  return components.map((c, i) => ({ ...c, draw_index: i + 1 }));
+}
+
+beforeAll(() => {
+  // Calculations traces every step to the console.
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("solveFlowDistribution", () => {
+  it("converges on a 2-outlet network with every path using the available head", () => {
+    const solution = solveFlowDistribution(twoOutlets(), { availableHead: 3, tolerance: 0.001 });
+
+    expect(solution.converged).toBe(true);
+    expect(solution.outlets).toHaveLength(2);
+    for (const outlet of solution.outlets) {
+      expect(outlet.solvedQ).toBeGreaterThan(0);
+      expect(Math.abs(outlet.headLoss - 3)).toBeLessThanOrEqual(0.001);
+    }
+  });
+
+  it("converges when the design flows need far more head than is available", () => {
+    const solution = solveFlowDistribution(twoOutlets(), {
+      availableHead: 0.02,
+      tolerance: 0.0001,
+    });
+
+    expect(solution.converged).toBe(true);
+    for (const outlet of solution.outlets) {
+      expect(outlet.solvedQ).toBeLessThan(outlet.designQ / 5);
+      expect(Math.abs(outlet.headLoss - 0.02)).toBeLessThanOrEqual(0.0001);
+    }
+  });
+
+  it("gives an outlet drawn without a capacity a flow", () => {
+    const solution = solveFlowDistribution(twoOutlets({ capacity5: 0 }), { availableHead: 3 });
+
+    expect(solution.converged).toBe(true);
+    const seeded = solution.outlets.find((o) => o.drawIndex === 5)!;
+    expect(seeded.solvedQ).toBeGreaterThan(0);
+    expect(Math.abs(seeded.headLoss - 3)).toBeLessThanOrEqual(0.001);
+  });
+
+  it("stops outlets whose discharge tailwater is above the available head", () => {
+    const solution = solveFlowDistribution(twoOutlets({ tailwater: 2 }), { availableHead: 1 });
+
+    expect(solution.converged).toBe(true);
+    for (const outlet of solution.outlets) {
+      expect(outlet.solvedQ).toBe(0);
+    }
+  });
+
+  it("returns the flows the rows were calculated with when it does not converge", () => {
+    const solution = solveFlowDistribution(twoOutlets(), { availableHead: 3, maxIterations: 1 });
+
+    expect(solution.converged).toBe(false);
+    for (const outlet of solution.outlets) {
+      // The first iteration runs on the design flows.
+      expect(outlet.solvedQ).toBe(outlet.designQ);
+      const path = solution.rows[outlet.pathIndex - 1];
+      expect(path.find((r) => r.item === "outlet")?.Q).toBeCloseTo(outlet.solvedQ, 12);
+    }
+  });
+
+  it("keeps fixed outlets at their given flow", () => {
+    const solution = solveFlowDistribution(twoOutlets(), {
+      availableHead: 3,
+      fixedFlows: new Map([[7, 0]]),
+    });
+
+    expect(solution.converged).toBe(true);
+    expect(solution.outlets.find((o) => o.drawIndex === 7)?.solvedQ).toBe(0);
+    expect(solution.outlets.find((o) => o.drawIndex === 5)?.solvedQ).toBeGreaterThan(6);
+  });
+});
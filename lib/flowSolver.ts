@@ -0,0 +1,173 @@
+import {
+  Calculations,
+  pathHeadLoss,
+  type EquationRow,
+  type EquationsComponent,
+  type ProjectSettings,
+} from "@/lib/calculations";
+
+export interface FlowSolverOptions {
+  // Roof-to-discharge head available to every outlet path (m).
+  availableHead: number;
+  // Largest acceptable |head loss − available head| on any path (m).
+  tolerance?: number;
+  maxIterations?: number;
+  // Project material and levels passed through to every Calculations run.
+  project?: ProjectSettings;
+  // Outlets (by draw_index) held at a given flow instead of being solved,
+  // e.g. 0 for a blocked outlet.
+  fixedFlows?: Map<number, number>;
+}
+
+/** Solved flow for a single outlet path, compared with its design capacity. */
+export type OutletFlowResult = {
+  pathIndex: number;
+  drawIndex: number;
+  designQ: number;
+  solvedQ: number;
+  // solvedQ − designQ (L/s); positive means the outlet draws more than design.
+  deviation: number;
+  // deviation as a percentage of designQ (0 when designQ is 0).
+  deviationPct: number;
+  // Σ delta_H along the path at the solved flows (m).
+  headLoss: number;
+};
+
+export type FlowSolution = {
+  converged: boolean;
+  iterations: number;
+  outlets: OutletFlowResult[];
+  rows: EquationRow[][];
+};
+
+// Starting flow for outlets drawn without a design capacity (L/s).
+const SEED_FLOW = 0.1;
+
+/**
+ * Redistribute outlet flows until every outlet path uses the same available
+ * head.
+ *
+ * Path losses grow roughly with Q², so each outlet is corrected as if
+ * loss(Q) = k·Q², which always gives a positive flow:
+ *
+ *   Q ← Q · √(H / loss)
+ *
+ * All outlets are updated together and the whole network is re-run through
+ * Calculations after every step, so the coupling through shared pipes is
+ * picked up on the next iteration (Hardy-Cross style).
+ *
+ * An outlet whose path has no head left after tailwater cannot flow and is
+ * set to 0. A path without a positive loss cannot be corrected this way; it
+ * is seeded with a small flow if it has none and otherwise left as it is.
+ *
+ * `components` must already carry draw_index values, as produced by the
+ * canvas layer.
+ */
+export function solveFlowDistribution(
+  components: EquationsComponent[],
+  options: FlowSolverOptions
+): FlowSolution {
+  const H = options.availableHead;
+  const tolerance = options.tolerance ?? 0.001;
+  const maxIterations = options.maxIterations ?? 50;
+
+  const designByDrawIndex = new Map<number, number>();
+  for (const comp of components) {
+    if (comp.type === "outlet" && typeof comp.draw_index === "number") {
+      designByDrawIndex.set(
+        comp.draw_index,
+        typeof comp.capacity === "number" ? comp.capacity : 0
+      );
+    }
+  }
+
+  const fixed = options.fixedFlows ?? new Map<number, number>();
+  const flows = new Map<number, number>();
+  for (const [drawIndex, designQ] of designByDrawIndex) {
+    flows.set(drawIndex, fixed.get(drawIndex) ?? (designQ > 0 ? designQ : SEED_FLOW));
+  }
+
+  let rows: EquationRow[][] = [];
+  let converged = false;
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    rows = new Calculations({
+      ...options.project,
+      components: components.map((comp) =>
+        comp.type === "outlet" && typeof comp.draw_index === "number"
+          ? { ...comp, capacity: flows.get(comp.draw_index) ?? 0 }
+          : { ...comp }
+      ),
+    }).toRows();
+
+    let worst = 0;
+    // Set when an outlet was stopped or seeded, so the flows changed without
+    // a loss having been checked at them.
+    let reset = false;
+    const next = new Map(flows);
+
+    for (const path of rows) {
+      const outletRow = [...path].reverse().find((r) => r.item === "outlet");
+      if (!outletRow) continue;
+      const Q = flows.get(outletRow.index);
+      if (Q == null || fixed.has(outletRow.index)) continue;
+
+      // Tailwater at the path's discharge takes off available head.
+      const pathH = H - (path.find((r) => r.item === "discharge")?.tailwater ?? 0);
+      if (pathH <= 0) {
+        if (Q !== 0) {
+          next.set(outletRow.index, 0);
+          reset = true;
+        }
+        continue;
+      }
+
+      const loss = pathHeadLoss(path);
+      if (loss <= 0) {
+        if (Q <= 0) {
+          next.set(outletRow.index, SEED_FLOW);
+          reset = true;
+        }
+        continue;
+      }
+
+      worst = Math.max(worst, Math.abs(pathH - loss));
+      next.set(outletRow.index, Q * Math.sqrt(pathH / loss));
+    }
+
+    if (worst <= tolerance && !reset) {
+      converged = true;
+      break;
+    }
+    // Keep the flows the last rows were calculated with, so the result stays
+    // consistent when the iteration limit is reached.
+    if (iterations === maxIterations) break;
+
+    for (const [drawIndex, Q] of next) {
+      flows.set(drawIndex, Q);
+    }
+  }
+
+  const outlets: OutletFlowResult[] = [];
+  rows.forEach((path, pathIdx) => {
+    const outletRow = [...path].reverse().find((r) => r.item === "outlet");
+    if (!outletRow) return;
+    const designQ = designByDrawIndex.get(outletRow.index) ?? 0;
+    const solvedQ = flows.get(outletRow.index) ?? 0;
+    const deviation = solvedQ - designQ;
+
+    outlets.push({
+      pathIndex: pathIdx + 1,
+      drawIndex: outletRow.index,
+      designQ,
+      solvedQ,
+      deviation,
+      deviationPct: designQ > 0 ? (deviation / designQ) * 100 : 0,
+      headLoss: pathHeadLoss(path),
+    });
+  });
+
+  return { converged, iterations, outlets, rows };
+}
@@ -0,0 +1,72 @@
+/** Standard gravity (m/s²). */
+export const GRAVITY = 9.81;
+
+/** Water temperature used when a design does not specify one (°C). */
+export const DEFAULT_WATER_TEMPERATURE = 20;
+
+export type FluidProperties = {
+  // °C
+  temperature: number;
+  // kg/m³
+  density: number;
+  // Kinematic viscosity (m²/s).
+  viscosity: number;
+  // Saturation vapour pressure, absolute (mbar).
+  vapourPressure: number;
+};
+
+// Properties of water at atmospheric pressure: [T °C, ρ kg/m³, ν 1e-6 m²/s,
+// p_v kPa].
+const WATER_TABLE: [number, number, number, number][] = [
+  [0, 999.84, 1.792, 0.6113],
+  [5, 999.97, 1.519, 0.8726],
+  [10, 999.7, 1.307, 1.2282],
+  [15, 999.1, 1.139, 1.7057],
+  [20, 998.21, 1.004, 2.3392],
+  [25, 997.05, 0.893, 3.1697],
+  [30, 995.65, 0.801, 4.2467],
+  [40, 992.22, 0.658, 7.3844],
+  [50, 988.03, 0.553, 12.352],
+  [60, 983.2, 0.474, 19.946],
+  [70, 977.76, 0.413, 31.201],
+  [80, 971.79, 0.365, 47.414],
+  [90, 965.31, 0.326, 70.182],
+  [100, 958.35, 0.294, 101.42],
+];
+
+/**
+ * Water properties at `temperature` °C, linearly interpolated from the
+ * standard table. Temperatures outside 0–100 °C are clamped to the table.
+ */
+export function waterProperties(
+  temperature: number = DEFAULT_WATER_TEMPERATURE
+): FluidProperties {
+  const first = WATER_TABLE[0];
+  const last = WATER_TABLE[WATER_TABLE.length - 1];
+  const T = Math.min(Math.max(temperature, first[0]), last[0]);
+
+  let lo = first;
+  let hi = last;
+  for (let i = 1; i < WATER_TABLE.length; i++) {
+    if (T <= WATER_TABLE[i][0]) {
+      lo = WATER_TABLE[i - 1];
+      hi = WATER_TABLE[i];
+      break;
+    }
+  }
+
+  const t = hi[0] === lo[0] ? 0 : (T - lo[0]) / (hi[0] - lo[0]);
+  const lerp = (k: 1 | 2 | 3) => lo[k] + t * (hi[k] - lo[k]);
+
+  return {
+    temperature: T,
+    density: lerp(1),
+    viscosity: lerp(2) * 1e-6,
+    vapourPressure: lerp(3) * 10,
+  };
+}
+
+/** mbar per metre of water column for the given fluid. */
+export function mbarPerMetre(fluid: FluidProperties): number {
+  return (fluid.density * GRAVITY) / 100;
+}
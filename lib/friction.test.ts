@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  LAMINAR_RE,
+  TURBULENT_RE,
+  frictionFactor,
+  type FrictionInput,
+  type FrictionModel,
+} from "@/lib/friction";
+import { GRAVITY } from "@/lib/fluid";
+
+const DI = 100;
+
+function f(model: FrictionModel, Re: number, relativeRoughness: number): number {
+  return frictionFactor(model, { Re, k: relativeRoughness * DI, di: DI, V: 1, C: 150 }).f;
+}
+
+// Moody chart values (Colebrook–White) for Re and k/D.
+const MOODY: { Re: number; kD: number; f: number }[] = [
+  { Re: 1e4, kD: 0.0001, f: 0.031 },
+  { Re: 1e5, kD: 0, f: 0.018 },
+  { Re: 1e6, kD: 0.001, f: 0.0199 },
+  { Re: 1e7, kD: 0.01, f: 0.0379 },
+];
+
+describe("frictionFactor", () => {
+  it("uses 64/Re for laminar flow in every model", () => {
+    for (const model of ["colebrook", "swamee_jain", "haaland", "hazen_williams"] as const) {
+      const result = frictionFactor(model, { Re: 1000, k: 0.2, di: DI, V: 0.01, C: 150 });
+      expect(result.regime).toBe("laminar");
+      expect(result.f).toBeCloseTo(0.064, 12);
+    }
+    expect(f("colebrook", 1500, 0.002)).toBeCloseTo(64 / 1500, 12);
+  });
+
+  it("interpolates transitional flow between the laminar and turbulent values", () => {
+    const fLam = 64 / LAMINAR_RE;
+    const fTurb = f("colebrook", TURBULENT_RE, 0.002);
+
+    const mid = frictionFactor("colebrook", { Re: 3000, k: 0.2, di: DI, V: 1, C: 150 });
+    expect(mid.regime).toBe("transitional");
+    expect(mid.f).toBeCloseTo((fLam + fTurb) / 2, 6);
+
+    // Continuous at both ends of the band.
+    expect(f("colebrook", LAMINAR_RE, 0.002)).toBeCloseTo(fLam, 12);
+    expect(f("colebrook", TURBULENT_RE - 1e-6, 0.002)).toBeCloseTo(fTurb, 6);
+  });
+
+  it("matches the Moody chart for turbulent flow", () => {
+    for (const { Re, kD, f: moody } of MOODY) {
+      expect(Math.abs(f("colebrook", Re, kD) / moody - 1), `Colebrook Re=${Re}`).toBeLessThan(
+        0.005
+      );
+      expect(Math.abs(f("haaland", Re, kD) / moody - 1), `Haaland Re=${Re}`).toBeLessThan(0.02);
+      // The repo's Swamee–Jain form (0.86·ln) sits a little above
+      // Colebrook–White.
+      const sj = f("swamee_jain", Re, kD);
+      expect(sj / moody - 1, `Swamee–Jain Re=${Re}`).toBeLessThan(0.03);
+      expect(sj).toBeGreaterThanOrEqual(f("colebrook", Re, kD));
+    }
+  });
+
+  it("converts Hazen–Williams to the Darcy f with the same head loss", () => {
+    const input: FrictionInput = { Re: 1e5, k: 0, di: DI, V: 1.5, C: 130 };
+    const D = DI / 1000;
+    const Q = input.V * (Math.PI / 4) * D * D;
+    // Hazen–Williams head loss per metre in SI units.
+    const S = (10.67 * Math.pow(Q, 1.852)) / (Math.pow(input.C, 1.852) * Math.pow(D, 4.87));
+
+    const { f: fHW } = frictionFactor("hazen_williams", input);
+    expect((fHW / D) * (input.V * input.V) / (2 * GRAVITY)).toBeCloseTo(S, 10);
+  });
+});
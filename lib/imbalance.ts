@@ -0,0 +1,127 @@
+import {
+  type Calculations,
+  type OutletHeadCheck,
+  type SystemInfo,
+} from "@/lib/calculations";
+import { mbarPerMetre, waterProperties, type FluidProperties } from "@/lib/fluid";
+
+/**
+ * Largest difference allowed between an outlet path's residual head and the
+ * critical path of its system. A path is flagged when it exceeds either.
+ */
+export interface ImbalanceTolerance {
+  // Absolute difference (mbar).
+  maxMbar: number;
+  // Difference as a percentage of the path's available head.
+  maxPercent: number;
+}
+
+export const DEFAULT_IMBALANCE_TOLERANCE: ImbalanceTolerance = {
+  maxMbar: 100,
+  maxPercent: 10,
+};
+
+/** Residual head of one outlet path compared with its system's critical path. */
+export type PathImbalance = {
+  system: number;
+  pathIndex: number;
+  drawIndex: number;
+  availableHead: number;
+  headLoss: number;
+  residualHead: number;
+  // Path the residuals of this system are compared with.
+  criticalPathIndex: number;
+  // residualHead − the critical path's residual (m); 0 for the critical path.
+  difference: number;
+  differenceMbar: number;
+  // 0 when the path has no available head.
+  differencePercent: number;
+  critical: boolean;
+  pass: boolean;
+};
+
+/**
+ * Compare the residual heads (available head − Σh) of the outlet paths of
+ * each system. The path with the lowest residual is the critical path; every
+ * other path uses less of its head, and the difference is what a balanced
+ * design keeps small, e.g. by downsizing the branch. Paths of different
+ * systems drain to different discharges and are never compared.
+ *
+ * `systems` index paths from 0 as in Calculations.toSystems(); head checks
+ * number them from 1. Without systems all paths are compared together.
+ * `fluid` is the design fluid used to convert metres to mbar.
+ */
+export function checkPathImbalance(
+  headChecks: OutletHeadCheck[],
+  systems: SystemInfo[],
+  tolerance: ImbalanceTolerance = DEFAULT_IMBALANCE_TOLERANCE,
+  fluid: FluidProperties = waterProperties()
+): PathImbalance[] {
+  const groups: { system: number; checks: OutletHeadCheck[] }[] = systems.length
+    ? systems.map((sys) => ({
+        system: sys.system,
+        checks: headChecks.filter((c) => sys.paths.includes(c.pathIndex - 1)),
+      }))
+    : [{ system: 1, checks: headChecks }];
+  const toMbar = mbarPerMetre(fluid);
+
+  const result: PathImbalance[] = [];
+  for (const { system, checks } of groups) {
+    if (!checks.length) continue;
+    const critical = checks.reduce((min, c) => (c.residualHead < min.residualHead ? c : min));
+
+    for (const c of checks) {
+      const difference = c.residualHead - critical.residualHead;
+      const differenceMbar = difference * toMbar;
+      const differencePercent =
+        c.availableHead > 0 ? (difference / c.availableHead) * 100 : 0;
+      result.push({
+        system,
+        pathIndex: c.pathIndex,
+        drawIndex: c.drawIndex,
+        availableHead: c.availableHead,
+        headLoss: c.headLoss,
+        residualHead: c.residualHead,
+        criticalPathIndex: critical.pathIndex,
+        difference,
+        differenceMbar,
+        differencePercent,
+        critical: c === critical,
+        pass:
+          differenceMbar <= tolerance.maxMbar && differencePercent <= tolerance.maxPercent,
+      });
+    }
+  }
+  return result;
+}
+
+export type BalanceMetrics = {
+  // Lowest delta_P over all rows (m of water column).
+  minPressure: number;
+  // Largest residual-head difference between an outlet path and the
+  // critical path of its system (m).
+  imbalance: number;
+  // Lowest residual head of any outlet path (m); negative when a path cannot
+  // carry its design flow.
+  minResidualHead: number;
+};
+
+/**
+ * Minimum pressure, residual-head imbalance and lowest residual head of one
+ * Calculations run: the figures the pipe sizer and the sensitivity analysis
+ * steer by.
+ */
+export function balanceMetrics(calc: Calculations): BalanceMetrics {
+  let minP = Infinity;
+  for (const path of calc.toRows()) {
+    for (const row of path) {
+      if (typeof row.delta_P === "number" && row.delta_P < minP) minP = row.delta_P;
+    }
+  }
+  const paths = checkPathImbalance(calc.toHeadChecks(), calc.toSystems());
+  return {
+    minPressure: Number.isFinite(minP) ? minP : 0,
+    imbalance: paths.reduce((max, p) => Math.max(max, p.difference), 0),
+    minResidualHead: paths.reduce((min, p) => Math.min(min, p.residualHead), Infinity),
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { PIPE_MATERIALS, resolvePipeSize, snapToCatalog } from "@/lib/materials";
+import { fromDisplay, toInputValue } from "@/lib/units";
+
+describe("catalog sizes entered in inches", () => {
+  it("resolve to the catalog bore after inches → SI", () => {
+    for (const material of PIPE_MATERIALS) {
+      for (const size of material.sizes) {
+        const shown = toInputValue("us", "diameter", size.nominal);
+        expect(typeof shown).toBe("number");
+        const entered = fromDisplay("us", "diameter", shown as number);
+
+        const snapped = snapToCatalog(material.key, entered);
+        expect(snapped, `${material.key} ${size.nominal}`).toBe(size.nominal);
+        expect(resolvePipeSize(material.key, snapped).id).toBe(size.id);
+        // Values stored before snapping still find their size.
+        expect(resolvePipeSize(material.key, entered).id).toBe(size.id);
+      }
+    }
+  });
+
+  it("leaves sizes that are not in the catalog alone", () => {
+    expect(snapToCatalog("hdpe", 100)).toBe(100);
+    expect(resolvePipeSize("hdpe", 100).id).toBeCloseTo(92.2, 10);
+  });
+});
@@ -0,0 +1,137 @@
+/** One catalog size of a pipe material. All dimensions in mm. */
+export type PipeSize = {
+  // Size the drawing refers to (Edge.diameter).
+  nominal: number;
+  od: number;
+  id: number;
+};
+
+export type PipeMaterial = {
+  key: string;
+  name: string;
+  // Absolute roughness (mm).
+  roughness: number;
+  // Hazen–Williams coefficient, for comparisons with legacy designs.
+  hazenWilliamsC: number;
+  sizes: PipeSize[];
+};
+
+export const PIPE_MATERIALS: PipeMaterial[] = [
+  {
+    // Siphonic HDPE, SDR 26 wall series. Roughness includes an allowance for
+    // butt-weld and electrofusion beads.
+    key: "hdpe",
+    name: "HDPE",
+    roughness: 0.2,
+    hazenWilliamsC: 150,
+    sizes: [
+      { nominal: 32, od: 32, id: 26.0 },
+      { nominal: 40, od: 40, id: 34.0 },
+      { nominal: 50, od: 50, id: 44.0 },
+      { nominal: 56, od: 56, id: 50.0 },
+      { nominal: 63, od: 63, id: 57.0 },
+      { nominal: 75, od: 75, id: 69.0 },
+      { nominal: 90, od: 90, id: 83.0 },
+      { nominal: 110, od: 110, id: 101.6 },
+      { nominal: 125, od: 125, id: 115.4 },
+      { nominal: 160, od: 160, id: 147.6 },
+      { nominal: 200, od: 200, id: 187.6 },
+      { nominal: 250, od: 250, id: 234.4 },
+      { nominal: 315, od: 315, id: 295.6 },
+    ],
+  },
+  {
+    // Stainless steel drainage pipe to EN 1124.
+    key: "stainless",
+    name: "Stainless steel",
+    roughness: 0.015,
+    hazenWilliamsC: 140,
+    sizes: [
+      { nominal: 40, od: 40, id: 38.0 },
+      { nominal: 50, od: 50, id: 48.0 },
+      { nominal: 75, od: 75, id: 73.0 },
+      { nominal: 110, od: 110, id: 107.6 },
+      { nominal: 125, od: 125, id: 122.6 },
+      { nominal: 160, od: 160, id: 157.0 },
+      { nominal: 200, od: 200, id: 197.0 },
+      { nominal: 250, od: 250, id: 246.0 },
+      { nominal: 315, od: 315, id: 311.0 },
+    ],
+  },
+  {
+    // Epoxy-lined cast iron (SML) to EN 877, sized by DN.
+    key: "cast_iron",
+    name: "Cast iron",
+    roughness: 0.1,
+    hazenWilliamsC: 130,
+    sizes: [
+      { nominal: 50, od: 58, id: 51.0 },
+      { nominal: 70, od: 78, id: 71.0 },
+      { nominal: 80, od: 83, id: 76.0 },
+      { nominal: 100, od: 110, id: 103.0 },
+      { nominal: 125, od: 135, id: 127.0 },
+      { nominal: 150, od: 160, id: 152.0 },
+      { nominal: 200, od: 210, id: 200.0 },
+      { nominal: 250, od: 274, id: 263.0 },
+      { nominal: 300, od: 326, id: 314.0 },
+    ],
+  },
+];
+
+/** Material used for pipes when neither the project nor the pipe sets one. */
+export const DEFAULT_MATERIAL = "hdpe";
+
+// Ratio of internal to nominal diameter for sizes not found in the catalog.
+const FALLBACK_ID_RATIO = 0.922;
+
+// Largest difference (mm) between a diameter and a catalog nominal that still
+// counts as that size. Covers the rounding of sizes entered in other units,
+// e.g. 110 mm shown as 4.33071 in and read back as 110.000034 mm.
+const NOMINAL_TOLERANCE = 0.01;
+
+export function findMaterial(
+  key: string | null | undefined,
+  catalog: PipeMaterial[] = PIPE_MATERIALS
+): PipeMaterial {
+  return (
+    catalog.find((m) => m.key === key) ??
+    PIPE_MATERIALS.find((m) => m.key === DEFAULT_MATERIAL)!
+  );
+}
+
+/** Catalog size of `material` whose nominal matches `nominal`, if any. */
+export function findPipeSize(material: PipeMaterial, nominal: number): PipeSize | undefined {
+  return material.sizes.find((s) => Math.abs(s.nominal - nominal) <= NOMINAL_TOLERANCE);
+}
+
+/**
+ * `diameter` replaced by the catalog nominal it matches in the given
+ * material, so converted input is stored as the exact catalog size.
+ * Diameters that match no size are returned unchanged.
+ */
+export function snapToCatalog(
+  materialKey: string | null | undefined,
+  diameter: number,
+  catalog: PipeMaterial[] = PIPE_MATERIALS
+): number {
+  return findPipeSize(findMaterial(materialKey, catalog), diameter)?.nominal ?? diameter;
+}
+
+/**
+ * Internal diameter (mm), roughness (mm) and Hazen–Williams coefficient for a
+ * nominal size in the given material. Sizes missing from the catalog use
+ * 0.922 × nominal.
+ */
+export function resolvePipeSize(
+  materialKey: string | null | undefined,
+  nominal: number,
+  catalog: PipeMaterial[] = PIPE_MATERIALS
+): { id: number; roughness: number; hazenWilliamsC: number } {
+  const material = findMaterial(materialKey, catalog);
+  const size = findPipeSize(material, nominal);
+  return {
+    id: size ? size.id : FALLBACK_ID_RATIO * nominal,
+    roughness: material.roughness,
+    hazenWilliamsC: material.hazenWilliamsC,
+  };
+}
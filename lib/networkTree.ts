@@ -0,0 +1,137 @@
+import { type EquationsComponent } from "@/lib/calculations";
+
+/** A node of the drainage tree, rooted at a discharge. */
+export type TreeNode = {
+  node: EquationsComponent;
+  parent: TreeNode | null;
+  // Pipe connecting `parent` to this node (null for the root).
+  parentEdge: EquationsComponent | null;
+  // Downstream nodes, in drawing order of their connecting pipes.
+  children: TreeNode[];
+  // Σ outlet capacity in this node's subtree (L/s).
+  flow: number;
+};
+
+export type NetworkTree = {
+  root: TreeNode;
+  byNodeId: Map<number, TreeNode>;
+  // Pipes that would close a loop back onto an already-reached node.
+  loopEdges: EquationsComponent[];
+};
+
+const drawOrder = (c: EquationsComponent) =>
+  typeof c.draw_index === "number" && !Number.isNaN(c.draw_index)
+    ? c.draw_index
+    : Number.MAX_SAFE_INTEGER;
+
+/**
+ * Build a tree from node/edge connectivity (fromId/toId), rooted at
+ * `rootId`. Pipes are undirected; each one is oriented away from the root as
+ * it is reached. Nodes not connected to the root are left out, and pipes
+ * that would close a loop are reported in `loopEdges` instead of being
+ * followed.
+ *
+ * Drawing order is only used to make the child order deterministic.
+ */
+export function buildNetworkTree(
+  components: EquationsComponent[],
+  rootId: number
+): NetworkTree | null {
+  const nodesById = new Map<number, EquationsComponent>();
+  for (const c of components) {
+    if (c.component === "node") nodesById.set(c.id, c);
+  }
+  const rootNode = nodesById.get(rootId);
+  if (!rootNode) return null;
+
+  const edgesByNode = new Map<number, EquationsComponent[]>();
+  for (const c of components) {
+    if (c.component !== "edge" || c.fromId == null || c.toId == null) continue;
+    if (!nodesById.has(c.fromId) || !nodesById.has(c.toId)) continue;
+    for (const id of [c.fromId, c.toId]) {
+      const list = edgesByNode.get(id) ?? [];
+      list.push(c);
+      edgesByNode.set(id, list);
+    }
+  }
+
+  const root: TreeNode = {
+    node: rootNode,
+    parent: null,
+    parentEdge: null,
+    children: [],
+    flow: 0,
+  };
+  const byNodeId = new Map<number, TreeNode>([[rootId, root]]);
+  const usedEdges = new Set<number>();
+  const loopEdges: EquationsComponent[] = [];
+
+  // Breadth-first so each node is reached over the fewest pipes.
+  const queue: TreeNode[] = [root];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const edges = [...(edgesByNode.get(current.node.id) ?? [])].sort(
+      (a, b) => drawOrder(a) - drawOrder(b)
+    );
+
+    for (const edge of edges) {
+      if (usedEdges.has(edge.id)) continue;
+      usedEdges.add(edge.id);
+
+      const otherId = edge.fromId === current.node.id ? edge.toId! : edge.fromId!;
+      if (byNodeId.has(otherId)) {
+        loopEdges.push(edge);
+        continue;
+      }
+
+      const child: TreeNode = {
+        node: nodesById.get(otherId)!,
+        parent: current,
+        parentEdge: edge,
+        children: [],
+        flow: 0,
+      };
+      byNodeId.set(otherId, child);
+      current.children.push(child);
+      queue.push(child);
+    }
+  }
+
+  accumulateFlow(root);
+  return { root, byNodeId, loopEdges };
+}
+
+function accumulateFlow(tn: TreeNode): number {
+  let flow =
+    tn.node.type === "outlet" && typeof tn.node.capacity === "number"
+      ? tn.node.capacity
+      : 0;
+  for (const child of tn.children) {
+    flow += accumulateFlow(child);
+  }
+  tn.flow = flow;
+  return flow;
+}
+
+/** Nodes from the root down to `tn`, inclusive. */
+export function pathToRoot(tn: TreeNode): TreeNode[] {
+  const path: TreeNode[] = [];
+  for (let cur: TreeNode | null = tn; cur; cur = cur.parent) {
+    path.push(cur);
+  }
+  return path.reverse();
+}
+
+/** Every tree node in pre-order (parents before children). */
+export function walkTree(root: TreeNode): TreeNode[] {
+  const result: TreeNode[] = [];
+  const stack: TreeNode[] = [root];
+  while (stack.length > 0) {
+    const tn = stack.pop()!;
+    result.push(tn);
+    for (let i = tn.children.length - 1; i >= 0; i--) {
+      stack.push(tn.children[i]);
+    }
+  }
+  return result;
+}
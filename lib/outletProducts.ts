@@ -0,0 +1,128 @@
+/** A point on an outlet's published performance curve. */
+export type OutletCurvePoint = {
+  // Water depth on the roof above the outlet (mm).
+  depth: number;
+  // Flow the outlet passes at that depth (L/s).
+  flow: number;
+};
+
+export type OutletProduct = {
+  key: string;
+  name: string;
+  // Tailpipe (connection) diameter (mm).
+  connection: number;
+  // Highest design flow the manufacturer allows (L/s).
+  maxCapacity: number;
+  // Entry loss coefficient, referred to the tailpipe velocity.
+  k: number;
+  // Head–flow curve, ascending in depth and flow.
+  curve: OutletCurvePoint[];
+};
+
+// Generic siphonic outlets with curves typical of published data. Replace or
+// extend with the products actually specified on a project.
+export const OUTLET_PRODUCTS: OutletProduct[] = [
+  {
+    key: "siphonic_40",
+    name: "Siphonic outlet DN40",
+    connection: 40,
+    maxCapacity: 6,
+    k: 0.6,
+    curve: [
+      { depth: 15, flow: 1 },
+      { depth: 25, flow: 2.5 },
+      { depth: 35, flow: 4 },
+      { depth: 45, flow: 5.2 },
+      { depth: 55, flow: 6 },
+    ],
+  },
+  {
+    key: "siphonic_56",
+    name: "Siphonic outlet DN56",
+    connection: 56,
+    maxCapacity: 12,
+    k: 0.5,
+    curve: [
+      { depth: 15, flow: 2 },
+      { depth: 25, flow: 5 },
+      { depth: 35, flow: 8 },
+      { depth: 45, flow: 10.5 },
+      { depth: 55, flow: 12 },
+    ],
+  },
+  {
+    key: "siphonic_75",
+    name: "Siphonic outlet DN75",
+    connection: 75,
+    maxCapacity: 20,
+    k: 0.45,
+    curve: [
+      { depth: 20, flow: 4 },
+      { depth: 30, flow: 9 },
+      { depth: 40, flow: 14 },
+      { depth: 50, flow: 17.5 },
+      { depth: 60, flow: 20 },
+    ],
+  },
+  {
+    key: "siphonic_110",
+    name: "Siphonic outlet DN110",
+    connection: 110,
+    maxCapacity: 45,
+    k: 0.4,
+    curve: [
+      { depth: 25, flow: 10 },
+      { depth: 40, flow: 22 },
+      { depth: 55, flow: 33 },
+      { depth: 70, flow: 41 },
+      { depth: 80, flow: 45 },
+    ],
+  },
+];
+
+export function findOutletProduct(
+  key: string | null | undefined,
+  catalog: OutletProduct[] = OUTLET_PRODUCTS
+): OutletProduct | undefined {
+  return key ? catalog.find((p) => p.key === key) : undefined;
+}
+
+/**
+ * Water depth on the roof (mm) the outlet needs to pass `flow` (L/s), read
+ * from its curve by linear interpolation. Below the first point the curve is
+ * taken as a straight line from zero. Returns undefined for flows beyond the
+ * end of the curve.
+ */
+export function requiredWaterDepth(
+  product: OutletProduct,
+  flow: number
+): number | undefined {
+  if (flow <= 0) return 0;
+  let prev: OutletCurvePoint = { depth: 0, flow: 0 };
+  for (const point of product.curve) {
+    if (flow <= point.flow) {
+      const t = point.flow === prev.flow ? 0 : (flow - prev.flow) / (point.flow - prev.flow);
+      return prev.depth + t * (point.depth - prev.depth);
+    }
+    prev = point;
+  }
+  return undefined;
+}
+
+/**
+ * Flow (L/s) the outlet passes at a water depth (mm), read from its curve by
+ * linear interpolation from zero. Beyond the end of the curve the outlet is
+ * taken to pass its last tabulated flow.
+ */
+export function flowAtDepth(product: OutletProduct, depth: number): number {
+  if (depth <= 0) return 0;
+  let prev: OutletCurvePoint = { depth: 0, flow: 0 };
+  for (const point of product.curve) {
+    if (depth <= point.depth) {
+      const t = point.depth === prev.depth ? 0 : (depth - prev.depth) / (point.depth - prev.depth);
+      return prev.flow + t * (point.flow - prev.flow);
+    }
+    prev = point;
+  }
+  return prev.flow;
+}
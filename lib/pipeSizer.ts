@@ -0,0 +1,256 @@
+import {
+  Calculations,
+  type EquationRow,
+  type EquationsComponent,
+  type ProjectSettings,
+} from "@/lib/calculations";
+import { waterProperties } from "@/lib/fluid";
+import { balanceMetrics } from "@/lib/imbalance";
+import { resolvePipeSize } from "@/lib/materials";
+import { DEFAULT_MIN_PRESSURE_MBAR, resolvePressureLimit } from "@/lib/pressureLimits";
+import { DEFAULT_VELOCITY_LIMITS } from "@/lib/velocityChecks";
+
+/** Nominal pipe diameters (mm) the optimizer may choose from by default. */
+export const DEFAULT_DIAMETER_CATALOG = [
+  32, 40, 50, 56, 63, 75, 90, 110, 125, 160, 200, 250, 315,
+];
+
+export interface AutoSizeOptions {
+  catalog?: number[];
+  // Largest allowed residual-head difference between an outlet path and the
+  // critical path of its system (m).
+  imbalanceTolerance?: number;
+  // Lowest allowed delta_P anywhere in the network, in the same units as
+  // EquationRow.delta_P (m of water column). Defaults to the default
+  // negative-pressure limit of lib/pressureLimits.
+  minPressure?: number;
+  // Highest velocity a pipe without a diameter may start at (m/s).
+  maxVelocity?: number;
+  // Trial calculations allowed per pipe.
+  maxEvaluationsPerPipe?: number;
+  // Project material and levels passed through to every Calculations run.
+  project?: ProjectSettings;
+}
+
+export type AutoSizeMetrics = {
+  // Enclosed pipe volume Σ π/4·d²·L (L). For a fixed SDR the wall material
+  // scales the same way, so this is used as the material measure.
+  material: number;
+  // Largest residual-head difference from the critical path of a system (m).
+  imbalance: number;
+  // Lowest delta_P over all rows.
+  minPressure: number;
+  // Lowest residual head of any outlet path (m).
+  minResidualHead: number;
+};
+
+export type AutoSizeResult = {
+  feasible: boolean;
+  // Chosen diameter per edge id (empty when no feasible sizing exists).
+  diameters: Map<number, number>;
+  before: AutoSizeMetrics;
+  after: AutoSizeMetrics;
+  // Number of edges whose diameter differs from the input.
+  changed: number;
+  evaluations: number;
+};
+
+/**
+ * Choose a catalog diameter for every pipe so that material is minimised
+ * while every outlet path keeps a non-negative residual head, the residual
+ * heads stay balanced and the network stays above the negative-pressure
+ * limit.
+ *
+ * Each pipe starts from its current size, snapped up to the catalog, or,
+ * without one, from the smallest size that keeps it under `maxVelocity`.
+ * Single pipes are then moved one size at a time:
+ *
+ * - While the network is infeasible, every step up or down is tried and the
+ *   one that reduces the constraint violation the most is kept.
+ * - Once feasible, steps down are tried in order of material saved and the
+ *   first one that keeps the network feasible is kept.
+ *
+ * Every trial is a full Calculations run charged to the pipe it moves; a
+ * pipe that has used up `maxEvaluationsPerPipe` is not moved again. The
+ * search stops when no step helps any more.
+ *
+ * `components` must already carry draw_index values, as produced by the
+ * canvas layer.
+ */
+export function autoSizePipes(
+  components: EquationsComponent[],
+  options: AutoSizeOptions = {}
+): AutoSizeResult {
+  const catalog = [...(options.catalog ?? DEFAULT_DIAMETER_CATALOG)]
+    .filter((d) => d > 0)
+    .sort((a, b) => a - b);
+  const imbalanceTolerance = options.imbalanceTolerance ?? 0.5;
+  const minPressure =
+    options.minPressure ??
+    resolvePressureLimit(
+      { mode: "fixed", minMbar: DEFAULT_MIN_PRESSURE_MBAR },
+      waterProperties(options.project?.temperature ?? undefined)
+    );
+  const maxVelocity = options.maxVelocity ?? DEFAULT_VELOCITY_LIMITS.maxDownpipeVelocity;
+  const perPipe = options.maxEvaluationsPerPipe ?? 20;
+
+  const edges = components.filter((c) => c.component === "edge");
+  let evaluations = 0;
+
+  const run = (diameters: Map<number, number>) => {
+    evaluations++;
+    const sized = components.map((comp) =>
+      comp.component === "edge" && diameters.has(comp.id)
+        ? { ...comp, diameter: diameters.get(comp.id) }
+        : { ...comp }
+    );
+    const calc = new Calculations({ ...options.project, components: sized });
+    return { calc, metrics: { material: pipeVolume(sized), ...balanceMetrics(calc) } };
+  };
+  const evaluate = (diameters: Map<number, number>) => run(diameters).metrics;
+
+  const violation = (m: AutoSizeMetrics) =>
+    !Number.isFinite(m.imbalance) || !Number.isFinite(m.minPressure)
+      ? Infinity
+      : Math.max(0, m.imbalance - imbalanceTolerance) +
+        Math.max(0, minPressure - m.minPressure) +
+        Math.max(0, -m.minResidualHead);
+
+  const isFeasible = (m: AutoSizeMetrics) => violation(m) === 0;
+
+  const original = new Map<number, number>();
+  for (const edge of edges) {
+    if (typeof edge.diameter === "number") original.set(edge.id, edge.diameter);
+  }
+  const { calc: baseCalc, metrics: before } = run(original);
+
+  if (!catalog.length || !edges.length) {
+    return { feasible: false, diameters: new Map(), before, after: before, changed: 0, evaluations };
+  }
+
+  // Index into `catalog` per edge.
+  const pipeRows = new Map<number, EquationRow>();
+  for (const row of baseCalc.toRows().flat()) {
+    if (row.item === "pipe" && !pipeRows.has(row.index)) pipeRows.set(row.index, row);
+  }
+  const sizeIndex = new Map<number, number>();
+  for (const edge of edges) {
+    sizeIndex.set(
+      edge.id,
+      typeof edge.diameter === "number" && edge.diameter > 0
+        ? snapUp(catalog, edge.diameter)
+        : smallestForVelocity(
+            catalog,
+            pipeRows.get(edge.draw_index ?? -1),
+            maxVelocity,
+            options.project
+          )
+    );
+  }
+
+  const toDiameters = () => {
+    const map = new Map<number, number>();
+    for (const [id, idx] of sizeIndex) map.set(id, catalog[idx]);
+    return map;
+  };
+
+  let current = evaluate(toDiameters());
+
+  const lengthById = new Map<number, number>();
+  const trialsById = new Map<number, number>();
+  for (const edge of edges) {
+    lengthById.set(edge.id, typeof edge.length === "number" ? edge.length : 0);
+    trialsById.set(edge.id, 0);
+  }
+
+  for (;;) {
+    const feasibleNow = isFeasible(current);
+
+    // Feasible: only steps down, largest saving first. Infeasible: steps
+    // either way.
+    const candidates = edges
+      .filter((edge) => trialsById.get(edge.id)! < perPipe)
+      .flatMap((edge) => {
+        const idx = sizeIndex.get(edge.id)!;
+        const L = lengthById.get(edge.id) ?? 0;
+        const steps = feasibleNow ? [-1] : [-1, 1];
+        return steps
+          .filter((step) => idx + step >= 0 && idx + step < catalog.length)
+          .map((step) => ({
+            id: edge.id,
+            step,
+            saving: L * (catalog[idx] ** 2 - catalog[idx + step] ** 2),
+          }));
+      })
+      .sort((a, b) => b.saving - a.saving);
+
+    let best: { id: number; step: number; metrics: AutoSizeMetrics } | null = null;
+
+    for (const candidate of candidates) {
+      if (trialsById.get(candidate.id)! >= perPipe) continue;
+      trialsById.set(candidate.id, trialsById.get(candidate.id)! + 1);
+      const idx = sizeIndex.get(candidate.id)!;
+      sizeIndex.set(candidate.id, idx + candidate.step);
+      const trial = evaluate(toDiameters());
+      sizeIndex.set(candidate.id, idx);
+
+      if (feasibleNow) {
+        if (isFeasible(trial)) {
+          best = { ...candidate, metrics: trial };
+          break;
+        }
+      } else if (violation(trial) < violation(best?.metrics ?? current)) {
+        best = { ...candidate, metrics: trial };
+      }
+    }
+
+    if (!best) break;
+    sizeIndex.set(best.id, sizeIndex.get(best.id)! + best.step);
+    current = best.metrics;
+  }
+
+  if (!isFeasible(current)) {
+    return { feasible: false, diameters: new Map(), before, after: current, changed: 0, evaluations };
+  }
+
+  const diameters = toDiameters();
+  let changed = 0;
+  for (const [id, d] of diameters) {
+    if (original.get(id) !== d) changed++;
+  }
+
+  return { feasible: true, diameters, before, after: current, changed, evaluations };
+}
+
+// Index of the smallest catalog size at least `diameter`, or the largest.
+function snapUp(catalog: number[], diameter: number): number {
+  const idx = catalog.findIndex((d) => d >= diameter);
+  return idx < 0 ? catalog.length - 1 : idx;
+}
+
+// Index of the smallest catalog size that carries the pipe's flow at no more
+// than `maxVelocity`, or the largest.
+function smallestForVelocity(
+  catalog: number[],
+  row: EquationRow | undefined,
+  maxVelocity: number,
+  project: ProjectSettings | undefined
+): number {
+  const Q = (row?.Q ?? 0) / 1000;
+  const idx = catalog.findIndex((nominal) => {
+    const di = resolvePipeSize(row?.material, nominal, project?.materials).id / 1000;
+    return Q / ((Math.PI / 4) * di * di) <= maxVelocity;
+  });
+  return idx < 0 ? catalog.length - 1 : idx;
+}
+
+function pipeVolume(components: EquationsComponent[]): number {
+  let material = 0;
+  for (const comp of components) {
+    if (comp.component !== "edge") continue;
+    const d = typeof comp.diameter === "number" ? comp.diameter / 1000 : 0;
+    const L = typeof comp.length === "number" ? comp.length : 0;
+    material += (Math.PI / 4) * d * d * L * 1000;
+  }
+  return material;
+}
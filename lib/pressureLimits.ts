@@ -0,0 +1,75 @@
+import { type EquationRow } from "@/lib/calculations";
+import { mbarPerMetre, waterProperties, type FluidProperties } from "@/lib/fluid";
+
+/** Standard atmospheric pressure (mbar). */
+export const ATMOSPHERIC_PRESSURE_MBAR = 1013.25;
+
+/** Default minimum gauge pressure a siphonic system may reach (mbar). */
+export const DEFAULT_MIN_PRESSURE_MBAR = -800;
+
+/**
+ * How the minimum allowed pressure is set: a fixed gauge value, or the
+ * vapour pressure of water at a design temperature (cavitation limit).
+ */
+export type PressureLimit =
+  | { mode: "fixed"; minMbar: number }
+  | { mode: "vapour"; temperature: number };
+
+/** A row whose delta_P falls below the configured limit. */
+export type PressureViolation = {
+  pathIndex: number;
+  index: number;
+  item: string;
+  delta_P: number;
+  // Limit the row was checked against (m of water column).
+  limit: number;
+};
+
+/**
+ * Resolve a pressure limit to the units of EquationRow.delta_P (m of water
+ * column, gauge). The vapour limit is the absolute vapour pressure of water at
+ * the limit's temperature expressed relative to atmosphere; `fluid` is the
+ * design fluid used to convert mbar to metres.
+ */
+export function resolvePressureLimit(
+  limit: PressureLimit,
+  fluid: FluidProperties = waterProperties()
+): number {
+  const mbar =
+    limit.mode === "vapour"
+      ? waterProperties(limit.temperature).vapourPressure - ATMOSPHERIC_PRESSURE_MBAR
+      : limit.minMbar;
+  return mbar / mbarPerMetre(fluid);
+}
+
+/**
+ * Check every row of every outlet path against a minimum pressure (m of
+ * water column). A component shared by several paths is reported once per
+ * path it violates in, so the list shows which outlets are affected.
+ */
+export function checkPressureLimit(
+  groups: EquationRow[][],
+  limit: number
+): PressureViolation[] {
+  const violations: PressureViolation[] = [];
+
+  groups.forEach((rows, pathIdx) => {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      if (typeof row.delta_P !== "number" || row.delta_P >= limit) continue;
+      const key = `${row.item}:${row.index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      violations.push({
+        pathIndex: pathIdx + 1,
+        index: row.index,
+        item: row.item,
+        delta_P: row.delta_P,
+        limit,
+      });
+    }
+  });
+
+  return violations;
+}
@@ -0,0 +1,201 @@
+import {
+  Calculations,
+  type EquationsComponent,
+  type ProjectSettings,
+} from "@/lib/calculations";
+import { GRAVITY } from "@/lib/fluid";
+import { OUTLET_PRODUCTS, findOutletProduct, flowAtDepth } from "@/lib/outletProducts";
+import {
+  DEFAULT_RUNOFF_COEFFICIENT,
+  hyetographIntensity,
+  type Hyetograph,
+} from "@/lib/rainfall";
+
+/** Longest priming time BS 8490 accepts for a siphonic system (s). */
+export const DEFAULT_PRIMING_LIMIT = 60;
+
+// Discharge coefficient of the weir formed by the rim of an outlet without a
+// product curve: Q = Cd·π·D·√(2g)·h^1.5.
+const WEIR_COEFFICIENT = 0.6;
+
+export interface PrimingOptions {
+  // Rainfall over time from the start of the storm.
+  hyetograph: Hyetograph;
+  // Intensity the outlet capacities were sized for (L/(s·m²)); converts a
+  // capacity to an equivalent catchment for outlets without one.
+  designIntensity: number;
+  // Largest priming time allowed (s).
+  primingLimit?: number;
+  timeStep?: number;
+  // Time after which a system that has not primed is reported as such (s).
+  maxTime?: number;
+  // Roof area around each outlet that ponds before it flows away (m²).
+  pondingArea?: number;
+  // Flow the network drains by gravity before it primes, as a fraction of
+  // its full-bore design flow. Horizontal collectors are laid almost flat, so
+  // this is small.
+  gravityFraction?: number;
+  // Flow an outlet admits before priming, as a fraction of its full-bore
+  // flow: the tailpipe runs part-full and entrains air.
+  entryFraction?: number;
+  // Project material and levels passed through to Calculations.
+  project?: ProjectSettings;
+}
+
+/** Fields of an outlet node that set the rain reaching it. */
+export type PrimingComponent = EquationsComponent & {
+  catchmentArea?: number;
+  runoffCoefficient?: number;
+};
+
+export type PrimingOutletSeries = {
+  id: number;
+  drawIndex: number;
+  // Roof water depth at each time step (mm).
+  depth: number[];
+  maxDepth: number;
+};
+
+export type PrimingResult = {
+  primed: boolean;
+  // Time from the start of rain to full-bore flow (s); null when the system
+  // did not prime within maxTime.
+  timeToPrime: number | null;
+  limit: number;
+  withinLimit: boolean;
+  // Water volume the pipes hold when running full (L).
+  pipeVolume: number;
+  // Time of each step (s).
+  time: number[];
+  // Share of the pipe volume filled at each step (0–1).
+  fill: number[];
+  outlets: PrimingOutletSeries[];
+};
+
+/**
+ * Simulate a siphonic system from dry to full-bore flow at the start of a
+ * storm. Each time step:
+ *
+ * 1. Rain on each outlet's catchment (C·i(t)·A) adds to the water ponding
+ *    around it; the depth is that volume over the ponding area.
+ * 2. The outlet admits the flow its product curve (or rim weir) gives at
+ *    that depth, limited to its design capacity and, until the system has
+ *    primed, to the part-full entry fraction.
+ * 3. The pipes keep what they cannot drain by gravity. The system primes
+ *    once the water held equals the pipe volume Σ π/4·di²·L.
+ *
+ * This is a lumped model: it ignores travel times and the order in which
+ * individual pipes fill, and its fractions should be calibrated against
+ * test data for a given product range.
+ *
+ * `components` must already carry draw_index values, as produced by the
+ * canvas layer.
+ */
+export function simulatePriming(
+  components: PrimingComponent[],
+  options: PrimingOptions
+): PrimingResult {
+  const limit = options.primingLimit ?? DEFAULT_PRIMING_LIMIT;
+  const dt = options.timeStep ?? 1;
+  const maxTime = options.maxTime ?? 600;
+  const pondingArea = options.pondingArea ?? 10;
+  const gravityFraction = options.gravityFraction ?? 0.1;
+  const entryFraction = options.entryFraction ?? 0.6;
+  const products = options.project?.outletProducts ?? OUTLET_PRODUCTS;
+
+  const rows = new Calculations({ ...options.project, components }).toRows();
+
+  // Each pipe appears on every path through it; count it once.
+  const pipes = new Map<number, number>();
+  for (const path of rows) {
+    for (const row of path) {
+      if (row.item !== "pipe" || pipes.has(row.index)) continue;
+      const di = row.di ?? 0;
+      pipes.set(row.index, (Math.PI / 4) * di * di * (row.L ?? 0) * 1000);
+    }
+  }
+  const pipeVolume = [...pipes.values()].reduce((sum, v) => sum + v, 0);
+
+  const outlets = components
+    .filter((c) => c.type === "outlet" && typeof c.draw_index === "number")
+    .map((c) => {
+      const capacity = c.capacity ?? 0;
+      const row = rows.flat().find((r) => r.item === "outlet" && r.index === c.draw_index);
+      const product = findOutletProduct(c.product, products);
+      const D = (row?.d ?? c.diameter ?? 0) / 1000;
+      return {
+        id: c.id,
+        drawIndex: c.draw_index!,
+        capacity,
+        // C·A, or the catchment equivalent to the design capacity.
+        effectiveArea:
+          typeof c.catchmentArea === "number"
+            ? (c.runoffCoefficient ?? DEFAULT_RUNOFF_COEFFICIENT) * c.catchmentArea
+            : options.designIntensity > 0
+            ? capacity / options.designIntensity
+            : 0,
+        // Full-bore flow (L/s) at a depth (mm).
+        flowAt: (depth: number) =>
+          Math.min(
+            capacity,
+            product
+              ? flowAtDepth(product, depth)
+              : WEIR_COEFFICIENT *
+                  Math.PI *
+                  D *
+                  Math.sqrt(2 * GRAVITY) *
+                  Math.pow(depth / 1000, 1.5) *
+                  1000
+          ),
+        stored: 0,
+        series: [] as number[],
+      };
+    });
+
+  const fullBoreFlow = outlets.reduce((sum, o) => sum + o.capacity, 0);
+  const gravityDrain = gravityFraction * fullBoreFlow;
+
+  const time: number[] = [];
+  const fill: number[] = [];
+  let held = 0;
+  let timeToPrime: number | null = null;
+
+  for (let t = 0; t <= maxTime; t += dt) {
+    const intensity = hyetographIntensity(options.hyetograph, t / 60);
+    let admitted = 0;
+
+    for (const o of outlets) {
+      o.stored += intensity * o.effectiveArea * dt;
+      const depth = pondingArea > 0 ? o.stored / pondingArea : 0;
+      const flow = Math.min(o.flowAt(depth) * entryFraction, o.stored / dt);
+      o.stored -= flow * dt;
+      admitted += flow;
+      o.series.push(pondingArea > 0 ? o.stored / pondingArea : 0);
+    }
+
+    held = Math.max(0, held + (admitted - gravityDrain) * dt);
+    time.push(t);
+    fill.push(pipeVolume > 0 ? Math.min(1, held / pipeVolume) : 1);
+
+    if (pipeVolume <= 0 || held >= pipeVolume) {
+      timeToPrime = t;
+      break;
+    }
+  }
+
+  return {
+    primed: timeToPrime !== null,
+    timeToPrime,
+    limit,
+    withinLimit: timeToPrime !== null && timeToPrime <= limit,
+    pipeVolume,
+    time,
+    fill,
+    outlets: outlets.map((o) => ({
+      id: o.id,
+      drawIndex: o.drawIndex,
+      depth: o.series,
+      maxDepth: o.series.reduce((max, d) => Math.max(max, d), 0),
+    })),
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { MM_PER_HOUR_PER_LSM2, parseIdfTable } from "@/lib/rainfall";
+
+// One return period of 2 yr with 0.03 at 5 min, read in the given unit.
+const intensity = (unit: string) =>
+  parseIdfTable(
+    [
+      [unit, 5],
+      [2, 0.03],
+    ],
+    "test"
+  ).intensities[0][0];
+
+describe("parseIdfTable", () => {
+  it("reads the intensity unit from the corner cell", () => {
+    expect(intensity("")).toBeCloseTo(0.03, 12);
+    for (const unit of ["L/(s·m²)", "l/s/m2", "Intensity [L/(s.m2)]"]) {
+      expect(intensity(unit), unit).toBeCloseTo(0.03, 12);
+    }
+    for (const unit of ["mm/h", "mm/hr", "i [mm / h]"]) {
+      expect(intensity(unit), unit).toBeCloseTo(0.03 / MM_PER_HOUR_PER_LSM2, 12);
+    }
+    for (const unit of ["L/(s·ha)", "l/s/ha", "L/(s ha)", "l/s.ha"]) {
+      expect(intensity(unit), unit).toBeCloseTo(0.03 / 10000, 12);
+    }
+  });
+
+  it("rejects a corner label that is not a known unit", () => {
+    for (const unit of ["chart", "hazard", "mm/min"]) {
+      expect(() => intensity(unit), unit).toThrow(/Unknown intensity unit/);
+    }
+  });
+});
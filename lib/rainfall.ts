@@ -0,0 +1,269 @@
+/**
+ * Rainfall intensity–duration–frequency (IDF) table. Intensities are in
+ * L/(s·m²), the unit EN 12056-3 uses for design rainfall.
+ */
+export type IdfTable = {
+  name: string;
+  // Storm durations (min), ascending.
+  durations: number[];
+  // Return periods (years), ascending.
+  returnPeriods: number[];
+  // intensities[p][d] is the intensity for returnPeriods[p] and durations[d].
+  intensities: number[][];
+};
+
+// Generic table shaped like central-European roof drainage data. Meant as a
+// starting point only; projects should use the table for their site.
+export const DEFAULT_IDF_TABLE: IdfTable = {
+  name: "Generic (illustrative)",
+  durations: [2, 5, 10, 15],
+  returnPeriods: [1, 2, 5, 10, 30, 100],
+  intensities: [
+    [0.025, 0.02, 0.015, 0.012],
+    [0.031, 0.025, 0.019, 0.016],
+    [0.039, 0.031, 0.023, 0.019],
+    [0.045, 0.036, 0.027, 0.022],
+    [0.055, 0.044, 0.033, 0.027],
+    [0.066, 0.053, 0.04, 0.033],
+  ],
+};
+
+/**
+ * How the design rainfall intensity is set: directly, or looked up from an
+ * IDF table by return period and storm duration.
+ */
+export type DesignStorm =
+  | { mode: "direct"; intensity: number }
+  // `table` names an imported IDF table; the default table when absent.
+  | { mode: "idf"; returnPeriod: number; duration: number; table?: string };
+
+export const DEFAULT_DESIGN_STORM: Extract<DesignStorm, { mode: "idf" }> = {
+  mode: "idf",
+  returnPeriod: 5,
+  duration: 2,
+};
+
+/** Runoff coefficient used when an outlet does not set one (flat roof). */
+export const DEFAULT_RUNOFF_COEFFICIENT = 1.0;
+
+/** L/(s·m²) to mm/h. */
+export const MM_PER_HOUR_PER_LSM2 = 3600;
+
+// Index of the table entries bracketing `x` and the fraction between them,
+// clamped to the ends of `axis`.
+function bracket(axis: number[], x: number, scale: (v: number) => number = (v) => v) {
+  if (x <= axis[0]) return { lo: 0, hi: 0, t: 0 };
+  const last = axis.length - 1;
+  if (x >= axis[last]) return { lo: last, hi: last, t: 0 };
+  let hi = 1;
+  while (axis[hi] < x) hi++;
+  const lo = hi - 1;
+  const t = (scale(x) - scale(axis[lo])) / (scale(axis[hi]) - scale(axis[lo]));
+  return { lo, hi, t };
+}
+
+/**
+ * Design rainfall intensity (L/(s·m²)) for a storm. IDF lookups interpolate
+ * linearly in duration and in log(return period), clamped to the table.
+ */
+export function resolveDesignIntensity(
+  storm: DesignStorm,
+  table: IdfTable = DEFAULT_IDF_TABLE
+): number {
+  if (storm.mode === "direct") return storm.intensity;
+  if (!table.durations.length || !table.returnPeriods.length) return 0;
+
+  const p = bracket(table.returnPeriods, storm.returnPeriod, Math.log);
+  const d = bracket(table.durations, storm.duration);
+  const at = (pi: number) => {
+    const row = table.intensities[pi];
+    return row[d.lo] + d.t * (row[d.hi] - row[d.lo]);
+  };
+  return at(p.lo) + p.t * (at(p.hi) - at(p.lo));
+}
+
+/** Intensity (L/(s·m²)) at each tabulated duration for one return period. */
+export function idfCurve(
+  table: IdfTable,
+  returnPeriod: number
+): { duration: number; intensity: number }[] {
+  return table.durations.map((duration) => ({
+    duration,
+    intensity: resolveDesignIntensity({ mode: "idf", returnPeriod, duration }, table),
+  }));
+}
+
+// Intensity units accepted in a table's corner cell with their factor to
+// L/(s·m²). Each pattern matches the whole unit, so words such as "chart"
+// do not select L/(s·ha).
+const INTENSITY_UNITS: { pattern: RegExp; factor: number }[] = [
+  { pattern: /\bmm\s*\/\s*h(?:r|our)?\b/i, factor: 1 / MM_PER_HOUR_PER_LSM2 },
+  { pattern: /\bl\s*\/\s*\(?\s*s\s*(?:[·⋅.*/]\s*)?ha\s*\)?(?![a-z])/i, factor: 1 / 10000 },
+  { pattern: /\bl\s*\/\s*\(?\s*s\s*(?:[·⋅.*/]\s*)?m(?:2|²)\s*\)?(?![a-z0-9])/i, factor: 1 },
+];
+
+// Factor from the unit named in a table's corner cell to L/(s·m²). An empty
+// cell means L/(s·m²); any other label must name a known unit.
+function unitFactor(label: string): number {
+  if (label.trim() === "") return 1;
+  const unit = INTENSITY_UNITS.find(({ pattern }) => pattern.test(label));
+  if (!unit) {
+    throw new Error(
+      `Unknown intensity unit "${label.trim()}" in the first cell; use L/(s·m²), mm/h or L/(s·ha).`
+    );
+  }
+  return unit.factor;
+}
+
+const toNumber = (cell: unknown): number =>
+  typeof cell === "number"
+    ? cell
+    : typeof cell === "string" && cell.trim() !== ""
+      ? Number(cell.trim().replace(",", "."))
+      : NaN;
+
+/**
+ * Parse an IDF table from spreadsheet rows (as read from CSV or XLSX). The
+ * expected layout is:
+ *
+ *   unit     | 2   | 5   | 10  ← durations (min)
+ *   1        | ... | ... | ...
+ *   5        | ... | ... | ...
+ *   ↑ return periods (years)
+ *
+ * The corner cell names the intensity unit: L/(s·m²) when empty, or mm/h or
+ * L/(s·ha). Rows and columns are sorted ascending; blank rows are skipped.
+ * Throws with a message suitable for the user when the layout is wrong.
+ */
+export function parseIdfTable(rows: unknown[][], name: string): IdfTable {
+  const filled = rows.filter((row) =>
+    row.some((cell) => cell != null && String(cell).trim() !== "")
+  );
+  if (filled.length < 2) {
+    throw new Error(
+      "An IDF table needs a header row of durations and at least one return period row."
+    );
+  }
+
+  const [header, ...body] = filled;
+  const factor = unitFactor(String(header[0] ?? ""));
+  const durationCols: { col: number; duration: number }[] = [];
+  for (let col = 1; col < header.length; col++) {
+    const duration = toNumber(header[col]);
+    if (Number.isFinite(duration) && duration > 0) durationCols.push({ col, duration });
+  }
+  if (!durationCols.length) {
+    throw new Error("The first row must list storm durations in minutes.");
+  }
+  durationCols.sort((a, b) => a.duration - b.duration);
+
+  const parsed = body.map((row, i) => {
+    const returnPeriod = toNumber(row[0]);
+    if (!Number.isFinite(returnPeriod) || returnPeriod <= 0) {
+      throw new Error(`Row ${i + 2}: the first cell must be a return period in years.`);
+    }
+    const intensities = durationCols.map(({ col, duration }) => {
+      const value = toNumber(row[col]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(
+          `Row ${i + 2}: missing intensity for ${returnPeriod} yr, ${duration} min.`
+        );
+      }
+      return value * factor;
+    });
+    return { returnPeriod, intensities };
+  });
+  parsed.sort((a, b) => a.returnPeriod - b.returnPeriod);
+
+  return {
+    name,
+    durations: durationCols.map((c) => c.duration),
+    returnPeriods: parsed.map((r) => r.returnPeriod),
+    intensities: parsed.map((r) => r.intensities),
+  };
+}
+
+/**
+ * Rainfall intensity over the course of a storm, for transient runs. Points
+ * are (time in minutes from the start of rain, intensity in L/(s·m²)),
+ * ascending in time; intensity is interpolated linearly between points and
+ * held after the last one.
+ */
+export type Hyetograph = { time: number; intensity: number }[];
+
+/**
+ * Storm that builds up linearly from dry to `intensity` over `rampMinutes`
+ * and then holds.
+ */
+export function rampHyetograph(intensity: number, rampMinutes = 1): Hyetograph {
+  return rampMinutes > 0
+    ? [
+        { time: 0, intensity: 0 },
+        { time: rampMinutes, intensity },
+      ]
+    : [{ time: 0, intensity }];
+}
+
+/** Intensity (L/(s·m²)) at `minutes` into the storm. */
+export function hyetographIntensity(hyetograph: Hyetograph, minutes: number): number {
+  if (!hyetograph.length || minutes < hyetograph[0].time) return 0;
+  for (let i = 1; i < hyetograph.length; i++) {
+    const a = hyetograph[i - 1];
+    const b = hyetograph[i];
+    if (minutes <= b.time) {
+      const t = b.time === a.time ? 1 : (minutes - a.time) / (b.time - a.time);
+      return a.intensity + t * (b.intensity - a.intensity);
+    }
+  }
+  return hyetograph[hyetograph.length - 1].intensity;
+}
+
+/** Design flow (L/s) from a catchment: Q = C·i·A. */
+export function outletDesignFlow(
+  catchmentArea: number,
+  runoffCoefficient: number,
+  intensity: number
+): number {
+  return runoffCoefficient * intensity * catchmentArea;
+}
+
+/** The fields of a canvas node that take part in capacity derivation. */
+export type RainfallOutlet = {
+  type?: string | null;
+  capacity?: number;
+  // Roof area draining to the outlet (m²).
+  catchmentArea?: number;
+  runoffCoefficient?: number;
+  // Keep the typed-in capacity instead of deriving it.
+  capacityOverride?: boolean;
+};
+
+/** Whether an outlet's capacity is derived from its catchment. */
+export function hasDerivedCapacity(node: RainfallOutlet): boolean {
+  return (
+    node.type === "outlet" &&
+    typeof node.catchmentArea === "number" &&
+    !node.capacityOverride
+  );
+}
+
+/**
+ * Set capacity = C·i·A on every outlet with a catchment area and no
+ * override. Other nodes are returned unchanged. Capacities are rounded to
+ * 0.01 L/s so canvas labels stay readable.
+ */
+export function applyDesignRainfall<T extends RainfallOutlet>(
+  nodes: T[],
+  intensity: number
+): T[] {
+  return nodes.map((node) => {
+    if (!hasDerivedCapacity(node)) return node;
+    const q = outletDesignFlow(
+      node.catchmentArea!,
+      node.runoffCoefficient ?? DEFAULT_RUNOFF_COEFFICIENT,
+      intensity
+    );
+    const capacity = Math.round(q * 100) / 100;
+    return node.capacity === capacity ? node : { ...node, capacity };
+  });
+}
@@ -0,0 +1,196 @@
+import {
+  Calculations,
+  type EquationRow,
+  type EquationsComponent,
+  type OutletHeadCheck,
+  type ProjectSettings,
+} from "@/lib/calculations";
+import { solveFlowDistribution } from "@/lib/flowSolver";
+
+/**
+ * An off-design case: outlets blocked by debris, or a storm that only
+ * reaches part of the roof. Outlets are referred to by node id so a scenario
+ * survives renumbering of the drawing.
+ */
+export type Scenario = {
+  name: string;
+  // Outlet node ids that pass no flow.
+  blocked: number[];
+  // Capacity factor per outlet node id (0.5 = half the design flow).
+  // Outlets not listed keep their design capacity.
+  factors: Record<number, number>;
+};
+
+export interface ScenarioOptions {
+  // Project material and levels passed through to every Calculations run.
+  project?: ProjectSettings;
+  // Lowest allowed delta_P (m of water column); pressures are not checked
+  // when absent.
+  minPressure?: number;
+  // Roof-to-discharge head (m). When set, the flows of unaffected outlets are
+  // solved at this head, with blocked and scaled outlets held at their
+  // scenario flow. Otherwise every outlet runs at its scenario flow.
+  availableHead?: number;
+}
+
+/** One outlet path in a scenario. */
+export type ScenarioOutletResult = {
+  id: number;
+  drawIndex: number;
+  blocked: boolean;
+  // Flow the outlet has to pass in the scenario (L/s).
+  demand: number;
+  // Flow through the outlet: solved at the available head, or the demand.
+  flow: number;
+  // Lowest delta_P along the outlet's path (m of water column).
+  minPressure: number;
+  // Available-head residual of the path (m); only without an available head.
+  residualHead?: number;
+  pass: boolean;
+  // Why the path fails; empty when it passes.
+  failures: string[];
+};
+
+export type ScenarioResult = {
+  name: string;
+  outlets: ScenarioOutletResult[];
+  // Lowest delta_P in the network (m of water column).
+  minPressure: number;
+  // False when the flow solver did not converge; absent without a solve.
+  converged?: boolean;
+};
+
+export const DESIGN_SCENARIO: Scenario = { name: "Design", blocked: [], factors: {} };
+
+// Flow shortfall (L/s) below which a solved outlet still counts as passing
+// its demand.
+const FLOW_TOLERANCE = 0.005;
+
+/**
+ * Run one scenario through Calculations, or through the flow solver when
+ * an available head is given, and check every outlet path that still
+ * carries flow against the pressure limit and its available head.
+ *
+ * `components` must already carry draw_index values, as produced by the
+ * canvas layer.
+ */
+export function runScenario(
+  components: EquationsComponent[],
+  scenario: Scenario,
+  options: ScenarioOptions = {}
+): ScenarioResult {
+  const blocked = new Set(scenario.blocked);
+  const demandById = new Map<number, number>();
+  const idByDrawIndex = new Map<number, number>();
+  for (const comp of components) {
+    if (comp.type !== "outlet" || typeof comp.draw_index !== "number") continue;
+    idByDrawIndex.set(comp.draw_index, comp.id);
+    const design = comp.capacity ?? 0;
+    demandById.set(
+      comp.id,
+      blocked.has(comp.id) ? 0 : design * (scenario.factors[comp.id] ?? 1)
+    );
+  }
+
+  const scaled = components.map((comp) =>
+    demandById.has(comp.id) && comp.type === "outlet"
+      ? { ...comp, capacity: demandById.get(comp.id) }
+      : comp
+  );
+
+  let rows: EquationRow[][];
+  let headChecks: OutletHeadCheck[] = [];
+  let converged: boolean | undefined;
+  const solvedByDrawIndex = new Map<number, number>();
+
+  if (typeof options.availableHead === "number") {
+    // Blocked and scaled outlets are limited by what reaches them; the rest
+    // take what the head lets them draw.
+    const fixedFlows = new Map<number, number>();
+    for (const [drawIndex, id] of idByDrawIndex) {
+      if (blocked.has(id) || id in scenario.factors) {
+        fixedFlows.set(drawIndex, demandById.get(id) ?? 0);
+      }
+    }
+    const solution = solveFlowDistribution(scaled, {
+      availableHead: options.availableHead,
+      project: options.project,
+      fixedFlows,
+    });
+    rows = solution.rows;
+    converged = solution.converged;
+    for (const o of solution.outlets) solvedByDrawIndex.set(o.drawIndex, o.solvedQ);
+  } else {
+    const calc = new Calculations({ ...options.project, components: scaled });
+    rows = calc.toRows();
+    headChecks = calc.toHeadChecks();
+  }
+
+  const outlets: ScenarioOutletResult[] = [];
+  let networkMinP = Infinity;
+  rows.forEach((path, pathIdx) => {
+    let minP = Infinity;
+    for (const row of path) {
+      if (typeof row.delta_P === "number" && row.delta_P < minP) minP = row.delta_P;
+    }
+    if (minP < networkMinP) networkMinP = minP;
+
+    const outletRow = [...path].reverse().find((r) => r.item === "outlet");
+    if (!outletRow) return;
+    const id = idByDrawIndex.get(outletRow.index);
+    if (id == null) return;
+
+    const isBlocked = blocked.has(id);
+    const demand = demandById.get(id) ?? 0;
+    const flow = solvedByDrawIndex.get(outletRow.index) ?? demand;
+    const headCheck = headChecks.find((c) => c.pathIndex === pathIdx + 1);
+    const minPressure = Number.isFinite(minP) ? minP : 0;
+
+    // A blocked outlet carries nothing, so there is nothing to fail.
+    const failures: string[] = [];
+    if (!isBlocked) {
+      if (typeof options.minPressure === "number" && minPressure < options.minPressure) {
+        failures.push("below the pressure limit");
+      }
+      if (headCheck && !headCheck.pass) {
+        failures.push("not enough available head");
+      }
+      if (flow < demand - FLOW_TOLERANCE) {
+        failures.push("cannot pass its flow");
+      }
+    }
+
+    outlets.push({
+      id,
+      drawIndex: outletRow.index,
+      blocked: isBlocked,
+      demand,
+      flow,
+      minPressure,
+      residualHead: headCheck?.residualHead,
+      pass: failures.length === 0,
+      failures,
+    });
+  });
+
+  return {
+    name: scenario.name,
+    outlets,
+    minPressure: Number.isFinite(networkMinP) ? networkMinP : 0,
+    converged,
+  };
+}
+
+/**
+ * Run the design case and every scenario with the same options, for a
+ * side-by-side comparison. The design case always comes first.
+ */
+export function runScenarios(
+  components: EquationsComponent[],
+  scenarios: Scenario[],
+  options: ScenarioOptions = {}
+): ScenarioResult[] {
+  return [DESIGN_SCENARIO, ...scenarios].map((scenario) =>
+    runScenario(components, scenario, options)
+  );
+}
@@ -0,0 +1,251 @@
+import {
+  Calculations,
+  type EquationRow,
+  type EquationsComponent,
+  type ProjectSettings,
+} from "@/lib/calculations";
+import { FITTING_LIBRARY, type FittingEntry } from "@/lib/fittings";
+import { balanceMetrics, type BalanceMetrics } from "@/lib/imbalance";
+import { PIPE_MATERIALS, findMaterial, findPipeSize, type PipeMaterial } from "@/lib/materials";
+import { OUTLET_PRODUCTS, findOutletProduct } from "@/lib/outletProducts";
+
+/**
+ * Inputs varied by the sensitivity analysis, one component at a time:
+ * - roughness: absolute roughness of a pipe
+ * - diameter: internal diameter of a pipe (manufacturing tolerance)
+ * - capacity: design flow of an outlet
+ * - fittingK: loss coefficient of a fitting or outlet product
+ */
+export type SensitivityParameter = "roughness" | "diameter" | "capacity" | "fittingK";
+
+export const SENSITIVITY_PARAMETER_LABELS: Record<SensitivityParameter, string> = {
+  roughness: "Roughness",
+  diameter: "Internal diameter",
+  capacity: "Outlet capacity",
+  fittingK: "Fitting K",
+};
+
+/** Relative range of each parameter: varied to (1 − x) and (1 + x) times its value. */
+export type SensitivityRanges = Record<SensitivityParameter, number>;
+
+export const DEFAULT_SENSITIVITY_RANGES: SensitivityRanges = {
+  roughness: 0.5,
+  diameter: 0.02,
+  capacity: 0.1,
+  fittingK: 0.2,
+};
+
+export interface SensitivityOptions {
+  ranges?: Partial<SensitivityRanges>;
+  // Project material and levels passed through to every Calculations run.
+  project?: ProjectSettings;
+  // Upper bound on the number of Calculations runs; components past it are
+  // not varied.
+  maxEvaluations?: number;
+}
+
+export type SensitivityMetrics = BalanceMetrics;
+
+/** Result of varying one parameter of one component. */
+export type SensitivityEntry = {
+  parameter: SensitivityParameter;
+  component: "node" | "edge";
+  id: number;
+  drawIndex: number;
+  // "Pipe 4", "Outlet 7".
+  label: string;
+  // Parameter value in the design (mm for roughness and diameter, L/s for
+  // capacity, dimensionless for K).
+  value: number;
+  low: SensitivityMetrics;
+  high: SensitivityMetrics;
+  // Largest change of each metric from the design over low and high (m).
+  minPressureSwing: number;
+  imbalanceSwing: number;
+};
+
+export type SensitivityResult = {
+  base: SensitivityMetrics;
+  // Sorted by minPressureSwing, largest first.
+  entries: SensitivityEntry[];
+  evaluations: number;
+  // False when maxEvaluations stopped the analysis before every parameter
+  // of every component was varied.
+  complete: boolean;
+};
+
+// Suffix for catalog entries created for a single variation, so they never
+// clash with real keys.
+const VARIANT_SUFFIX = "~sensitivity";
+
+function describe(c: EquationsComponent): string {
+  const label =
+    c.component === "edge"
+      ? "Pipe"
+      : c.type
+        ? c.type[0].toUpperCase() + c.type.slice(1)
+        : "Joint";
+  return `${label} ${c.draw_index}`;
+}
+
+/**
+ * Re-run Calculations with each parameter of each component moved to the
+ * ends of its range while everything else stays at the design value, and
+ * rank the components by how much they move the minimum pressure and the
+ * residual-head imbalance between outlet paths. Each parameter costs two
+ * runs, so `maxEvaluations` bounds the time taken on large networks.
+ *
+ * Pipe variations use a private copy of the pipe's material, so they also
+ * reach the fittings that take their size from that pipe. Every pipe is
+ * pinned to the material it resolves to in the design so that a variation
+ * never leaks into downstream pipes that inherit their material.
+ *
+ * `components` must already carry draw_index values, as produced by the
+ * canvas layer.
+ */
+export function analyzeSensitivity(
+  components: EquationsComponent[],
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const ranges = { ...DEFAULT_SENSITIVITY_RANGES, ...options.ranges };
+  const project = options.project ?? {};
+  const materials = project.materials ?? PIPE_MATERIALS;
+  const library = project.fittingLibrary ?? FITTING_LIBRARY;
+  const products = project.outletProducts ?? OUTLET_PRODUCTS;
+  const maxEvaluations = options.maxEvaluations ?? 400;
+  let evaluations = 0;
+  let complete = true;
+
+  const run = (comps: EquationsComponent[], settings: ProjectSettings) => {
+    evaluations++;
+    return balanceMetrics(new Calculations({ ...settings, components: comps }));
+  };
+
+  const baseRows = new Calculations({ ...project, components }).toRows();
+  const rowFor = (comp: EquationsComponent): EquationRow | undefined => {
+    const item = comp.component === "edge" ? "pipe" : comp.type ?? "";
+    for (const path of baseRows) {
+      const row = path.find((r) => r.index === comp.draw_index && r.item === item);
+      if (row) return row;
+    }
+    return undefined;
+  };
+
+  const pinned = components.map((comp) => {
+    const row = comp.component === "edge" ? rowFor(comp) : undefined;
+    return row ? { ...comp, material: row.material ?? comp.material } : comp;
+  });
+  const base = run(pinned, project);
+
+  const entries: SensitivityEntry[] = [];
+  const vary = (
+    parameter: SensitivityParameter,
+    comp: EquationsComponent,
+    value: number,
+    variant: (factor: number) => {
+      comp: EquationsComponent;
+      settings?: ProjectSettings;
+    }
+  ) => {
+    const range = ranges[parameter];
+    if (!(range > 0) || value === 0) return;
+    if (evaluations + 2 > maxEvaluations) {
+      complete = false;
+      return;
+    }
+    const [low, high] = [1 - range, 1 + range].map((factor) => {
+      const { comp: changed, settings } = variant(factor);
+      return run(
+        pinned.map((c) => (c.component === comp.component && c.id === comp.id ? changed : c)),
+        { ...project, ...settings }
+      );
+    });
+    entries.push({
+      parameter,
+      component: comp.component,
+      id: comp.id,
+      drawIndex: comp.draw_index ?? 0,
+      label: describe(comp),
+      value,
+      low,
+      high,
+      minPressureSwing: Math.max(
+        Math.abs(low.minPressure - base.minPressure),
+        Math.abs(high.minPressure - base.minPressure)
+      ),
+      imbalanceSwing: Math.max(
+        Math.abs(low.imbalance - base.imbalance),
+        Math.abs(high.imbalance - base.imbalance)
+      ),
+    });
+  };
+
+  for (const comp of pinned) {
+    if (typeof comp.draw_index !== "number") continue;
+    const row = rowFor(comp);
+    if (!row) continue;
+
+    if (comp.component === "edge") {
+      const material = findMaterial(row.material, materials);
+      // The pipe's own size, also when it is not in the catalog.
+      const sizes = findPipeSize(material, row.d)
+        ? material.sizes
+        : [...material.sizes, { nominal: row.d, od: row.d, id: (row.di ?? 0) * 1000 }];
+      const variantMaterial = (changes: Partial<PipeMaterial>): ProjectSettings["materials"] => [
+        ...materials,
+        { ...material, sizes, ...changes, key: `${material.key}${VARIANT_SUFFIX}` },
+      ];
+      const withMaterial = { ...comp, material: `${material.key}${VARIANT_SUFFIX}` };
+
+      vary("roughness", comp, material.roughness, (factor) => ({
+        comp: withMaterial,
+        settings: { materials: variantMaterial({ roughness: material.roughness * factor }) },
+      }));
+      vary("diameter", comp, (row.di ?? 0) * 1000, (factor) => ({
+        comp: withMaterial,
+        settings: {
+          materials: variantMaterial({
+            sizes: sizes.map((s) => ({ ...s, id: s.id * factor })),
+          }),
+        },
+      }));
+      continue;
+    }
+
+    if (comp.type === "outlet") {
+      vary("capacity", comp, comp.capacity ?? 0, (factor) => ({
+        comp: { ...comp, capacity: (comp.capacity ?? 0) * factor },
+      }));
+    }
+
+    const product = row.product ? findOutletProduct(row.product, products) : undefined;
+    if (product) {
+      const key = `${product.key}${VARIANT_SUFFIX}`;
+      vary("fittingK", comp, product.k, (factor) => ({
+        comp: { ...comp, product: key },
+        settings: {
+          outletProducts: [...products, { ...product, key, k: product.k * factor }],
+        },
+      }));
+      continue;
+    }
+
+    const entry = row.fitting ? library.find((e) => e.key === row.fitting) : undefined;
+    if (entry && !row.transition) {
+      const key = `${entry.key}${VARIANT_SUFFIX}`;
+      const k = entry.k;
+      const scaled = (factor: number): FittingEntry => ({
+        ...entry,
+        key,
+        k: typeof k === "number" ? k * factor : (ctx) => k(ctx) * factor,
+      });
+      vary("fittingK", comp, row.kfit ?? 0, (factor) => ({
+        comp: { ...comp, fitting: key },
+        settings: { fittingLibrary: [...library, scaled(factor)] },
+      }));
+    }
+  }
+
+  entries.sort((a, b) => b.minPressureSwing - a.minPressureSwing);
+  return { base, entries, evaluations, complete };
+}
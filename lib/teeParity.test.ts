@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { compareTeeModels, TEE_REFERENCE_CASES } from "@/lib/teeParity";
+
+describe("compareTeeModels", () => {
+  it("covers both tee rows at 45° and 90°", () => {
+    const items = new Set(TEE_REFERENCE_CASES.map((c) => `${c.item}@${c.theta}`));
+    expect(items).toEqual(
+      new Set(["tee_main@45", "tee_main@90", "tee_side@45", "tee_side@90"])
+    );
+  });
+
+  it("matches the Python reference on every case", () => {
+    for (const row of compareTeeModels()) {
+      expect(row.ported, `${row.item} a=${row.a} q=${row.q} θ=${row.theta}`).toBeCloseTo(
+        row.K,
+        10
+      );
+    }
+  });
+});
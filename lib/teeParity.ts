@@ -0,0 +1,83 @@
+import { teeMainK, teeSideK, type EquationRow } from "@/lib/calculations";
+import teeReference from "@/lib/teeReference.json";
+
+/**
+ * One tee loss coefficient evaluated by the Python reference
+ * (components/python/equations.py). lib/teeReference.json is generated by
+ * components/python/tee_reference.py.
+ */
+export type TeeReferenceCase = {
+  item: "tee_main" | "tee_side";
+  // Branch-to-combined area ratio (d90/d)².
+  a: number;
+  // Branch-to-combined flow ratio.
+  q: number;
+  // Branch angle (°).
+  theta: number;
+  K: number;
+};
+
+export const TEE_REFERENCE_CASES = teeReference.cases as TeeReferenceCase[];
+
+/** One reference case compared with the coefficient Calculations uses. */
+export type TeeParityRow = TeeReferenceCase & {
+  // ktee from the TypeScript port on the same inputs.
+  ported: number;
+  difference: number;
+};
+
+/** Tee row of a calculated network with the inputs of its loss coefficient. */
+export type NetworkTeeRow = {
+  index: number;
+  item: string;
+  theta: number;
+  a: number;
+  q90: number;
+  ktee: number;
+};
+
+/**
+ * Evaluate the ported tee model on every reference case. Any non-zero
+ * difference means the port has drifted from equations.py on the reference
+ * grid; inputs between grid points are not checked.
+ */
+export function compareTeeModels(
+  cases: TeeReferenceCase[] = TEE_REFERENCE_CASES
+): TeeParityRow[] {
+  return cases.map((c) => {
+    const theta = (c.theta * Math.PI) / 180;
+    const ported = c.item === "tee_main" ? teeMainK(c.a, c.q, theta) : teeSideK(c.a, c.q, theta);
+    return { ...c, ported, difference: ported - c.K };
+  });
+}
+
+/**
+ * Every tee row of a calculated network with the inputs its ktee was
+ * evaluated on. Tee rows shared by several outlet paths are reported once.
+ */
+export function networkTees(groups: EquationRow[][]): NetworkTeeRow[] {
+  const seen = new Set<string>();
+  const result: NetworkTeeRow[] = [];
+
+  for (const rows of groups) {
+    for (const row of rows) {
+      if (row.item !== "tee_main" && row.item !== "tee_side") continue;
+      const key = `${row.item}:${row.index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const d = row.d ?? 0;
+      const d90 = row.d90 ?? 0;
+      result.push({
+        index: row.index,
+        item: row.item,
+        theta: row.theta ?? 0,
+        a: d === 0 ? 0 : Math.pow(d90 / d, 2),
+        q90: row.q90 ?? 0,
+        ktee: row.ktee ?? 0,
+      });
+    }
+  }
+
+  return result.sort((x, y) => x.index - y.index);
+}
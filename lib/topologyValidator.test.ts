@@ -0,0 +1,151 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { Calculations, type EquationsComponent } from "@/lib/calculations";
+import { validateTopology, type TopologyIssueCode } from "@/lib/topologyValidator";
+
+type Part = Omit<EquationsComponent, "draw_index">;
+
+const node = (
+  id: number,
+  type: string,
+  x: number,
+  y: number,
+  extra: Partial<Part> = {}
+): Part => ({ component: "node", id, type, x, y, ...extra });
+
+const pipe = (id: number, fromId: number | undefined, toId: number | undefined): Part => ({
+  component: "edge",
+  id,
+  fromId,
+  toId,
+  type: "pipe",
+  diameter: 75,
+  length: 5,
+});
+
+// Validate as the canvas does: numbered in drawing order and checked against
+// the outlet paths the calculation produced.
+function validate(parts: Part[]) {
+  const components = parts.map((c, i) => ({ ...c, draw_index: i + 1 }));
+  let rows: ReturnType<Calculations["toRows"]> = [];
+  try {
+    rows = new Calculations({ components }).toRows();
+  } catch {
+    // Broken drawings may not calculate; the validator explains why.
+  }
+  return validateTopology(components, rows);
+}
+
+const codes = (parts: Part[]): TopologyIssueCode[] => validate(parts).map((i) => i.code);
+
+// Discharge, a tee and two outlets.
+const valid: Part[] = [
+  node(1, "discharge", 0, 200),
+  pipe(2, 1, 3),
+  node(3, "tee", 0, 0),
+  pipe(4, 3, 5),
+  node(5, "outlet", 100, 0, { capacity: 6 }),
+  pipe(6, 3, 7),
+  node(7, "outlet", 0, -100, { capacity: 3 }),
+];
+
+beforeAll(() => {
+  // Calculations traces every step to the console.
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("validateTopology", () => {
+  it("accepts a valid tree", () => {
+    expect(validate(valid)).toEqual([]);
+  });
+
+  it("reports a drawing without a discharge", () => {
+    const parts = valid.map((c) => (c.id === 1 ? { ...c, type: "elbow90" } : c));
+    expect(codes(parts)).toContain("no_discharge");
+  });
+
+  it("reports a second discharge on the same network", () => {
+    const parts = [...valid, pipe(8, 5, 9), node(9, "discharge", 200, 0)];
+    const issue = validate(parts).find((i) => i.code === "multiple_discharges");
+    expect(issue).toMatchObject({ severity: "error", component: "node", id: 9 });
+  });
+
+  it("reports the pipe that closes a loop", () => {
+    const parts = [...valid, pipe(8, 5, 7)];
+    const issue = validate(parts).find((i) => i.code === "closed_loop");
+    expect(issue).toMatchObject({ severity: "error", component: "edge", id: 8 });
+  });
+
+  it("reports an outlet in the middle of a branch", () => {
+    const parts = [...valid, pipe(8, 5, 9), node(9, "outlet", 200, 0, { capacity: 1 })];
+    const issue = validate(parts).find((i) => i.code === "outlet_not_leaf");
+    expect(issue).toMatchObject({ severity: "error", id: 5 });
+  });
+
+  it("reports a branching node that is not a junction", () => {
+    const parts = valid.map((c) => (c.id === 3 ? { ...c, type: "elbow90" } : c));
+    const issue = validate(parts).find((i) => i.code === "junction_not_tee");
+    expect(issue).toMatchObject({ severity: "error", id: 3 });
+  });
+
+  it("reports a junction with more than two outgoing legs", () => {
+    const parts = [...valid, pipe(8, 3, 9), node(9, "outlet", -100, 0, { capacity: 1 })];
+    const issue = validate(parts).find((i) => i.code === "junction_too_many_legs");
+    expect(issue).toMatchObject({ severity: "error", id: 3 });
+  });
+
+  it("reports a discharge with more than two legs", () => {
+    const parts = [
+      ...valid,
+      pipe(8, 1, 9),
+      node(9, "outlet", 100, 200, { capacity: 1 }),
+      pipe(10, 1, 11),
+      node(11, "outlet", -100, 200, { capacity: 1 }),
+    ];
+    const issue = validate(parts).find((i) => i.code === "junction_too_many_legs");
+    expect(issue).toMatchObject({ severity: "error", id: 1 });
+  });
+
+  it("reports a pipe that is not connected at both ends", () => {
+    const parts = [...valid, pipe(8, 5, undefined)];
+    const issue = validate(parts).find((i) => i.code === "dangling_pipe");
+    expect(issue).toMatchObject({ severity: "error", component: "edge", id: 8 });
+  });
+
+  it("reports an outlet that is not connected to a discharge", () => {
+    const parts = [
+      ...valid,
+      node(8, "outlet", 300, 0, { capacity: 1 }),
+      pipe(9, 8, 10),
+      node(10, "elbow90", 300, 100),
+    ];
+    const issue = validate(parts).find((i) => i.code === "outlet_without_path");
+    expect(issue).toMatchObject({ severity: "error", id: 8 });
+    expect(issue?.message).toContain("not connected to a discharge");
+  });
+
+  it("warns about loose nodes and dead ends", () => {
+    const parts = [
+      ...valid,
+      node(8, "elbow45", 300, 300),
+      pipe(9, 1, 10),
+      node(10, "elbow90", 0, 300),
+    ];
+    const warnings = validate(parts).filter((i) => i.code === "dangling_node");
+    expect(warnings.map((i) => i.id)).toEqual([8, 10]);
+    expect(warnings.every((i) => i.severity === "warning")).toBe(true);
+  });
+
+  it("warns about a pipe whose ends are at the same point", () => {
+    const parts = [...valid, pipe(8, 5, 9), node(9, "elbow90", 100, 0)];
+    const issue = validate(parts).find((i) => i.code === "zero_length_pipe");
+    expect(issue).toMatchObject({ severity: "warning", component: "edge", id: 8 });
+  });
+
+  it("lists errors before warnings", () => {
+    const parts = [...valid, node(8, "elbow45", 300, 300), pipe(9, 5, 7)];
+    const severities = validate(parts).map((i) => i.severity);
+    expect(severities).toContain("error");
+    expect(severities).toContain("warning");
+    expect(severities.lastIndexOf("error")).toBeLessThan(severities.indexOf("warning"));
+  });
+});
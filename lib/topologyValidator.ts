@@ -0,0 +1,239 @@
+import { type EquationRow, type EquationsComponent } from "@/lib/calculations";
+
+export type TopologyIssueCode =
+  | "no_discharge"
+  | "multiple_discharges"
+  | "closed_loop"
+  | "outlet_not_leaf"
+  | "junction_not_tee"
+  | "junction_too_many_legs"
+  | "dangling_node"
+  | "dangling_pipe"
+  | "zero_length_pipe"
+  | "outlet_without_path";
+
+export type TopologySeverity = "error" | "warning";
+
+/** A problem with the drawing, pointing at the node or edge it concerns. */
+export type TopologyIssue = {
+  code: TopologyIssueCode;
+  severity: TopologySeverity;
+  message: string;
+  // Offending component; absent for issues about the drawing as a whole.
+  component?: "node" | "edge";
+  id?: number;
+};
+
+const JUNCTION_TYPES = new Set(["tee", "yvalve"]);
+
+// Two nodes closer than this (world units) are drawn on top of each other.
+const ZERO_LENGTH_EPSILON = 1e-6;
+
+const ISSUE_ORDER: Record<TopologySeverity, number> = { error: 0, warning: 1 };
+
+function describe(c: EquationsComponent): string {
+  const label =
+    c.component === "edge"
+      ? "Pipe"
+      : c.type
+        ? c.type[0].toUpperCase() + c.type.slice(1)
+        : "Node";
+  return typeof c.draw_index === "number" ? `${label} ${c.draw_index}` : label;
+}
+
+/**
+ * Check the drawn network for problems that make the calculation fail or
+ * silently drop outlets. Connectivity comes from edge fromId/toId; `rows` are
+ * the outlet paths the calculation produced for the same components and are
+ * used to find outlets that ended up in no path.
+ *
+ * Errors are returned before warnings, each group in drawing order.
+ */
+export function validateTopology(
+  components: EquationsComponent[],
+  rows: EquationRow[][] = []
+): TopologyIssue[] {
+  const issues: TopologyIssue[] = [];
+  const report = (
+    code: TopologyIssueCode,
+    severity: TopologySeverity,
+    message: string,
+    c?: EquationsComponent
+  ) => {
+    issues.push(
+      c
+        ? { code, severity, message, component: c.component, id: c.id }
+        : { code, severity, message }
+    );
+  };
+
+  const nodes = components.filter((c) => c.component === "node");
+  const edges = components.filter((c) => c.component === "edge");
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  if (nodes.length === 0 && edges.length === 0) return issues;
+
+  // Union-find over nodes: a pipe joining two already-connected nodes closes
+  // a loop.
+  const parent = new Map<number, number>(nodes.map((n) => [n.id, n.id]));
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const degree = new Map<number, number>();
+  for (const edge of edges) {
+    const from = edge.fromId != null ? nodesById.get(edge.fromId) : undefined;
+    const to = edge.toId != null ? nodesById.get(edge.toId) : undefined;
+    if (!from || !to) {
+      report(
+        "dangling_pipe",
+        "error",
+        `${describe(edge)} is not connected at both ends.`,
+        edge
+      );
+      continue;
+    }
+
+    degree.set(from.id, (degree.get(from.id) ?? 0) + 1);
+    degree.set(to.id, (degree.get(to.id) ?? 0) + 1);
+
+    if (
+      typeof from.x === "number" &&
+      typeof from.y === "number" &&
+      typeof to.x === "number" &&
+      typeof to.y === "number" &&
+      Math.hypot(to.x - from.x, to.y - from.y) < ZERO_LENGTH_EPSILON
+    ) {
+      report(
+        "zero_length_pipe",
+        "warning",
+        `${describe(edge)} has zero length: both ends are at the same point.`,
+        edge
+      );
+    }
+
+    const a = find(from.id);
+    const b = find(to.id);
+    if (a === b) {
+      report(
+        "closed_loop",
+        "error",
+        `${describe(edge)} closes a loop. Siphonic networks must be trees.`,
+        edge
+      );
+    } else {
+      parent.set(a, b);
+    }
+  }
+
+  // Discharges per connected network, in drawing order.
+  const dischargesByNetwork = new Map<number, EquationsComponent[]>();
+  for (const node of nodes) {
+    if (node.type !== "discharge") continue;
+    const root = find(node.id);
+    const list = dischargesByNetwork.get(root) ?? [];
+    list.push(node);
+    dischargesByNetwork.set(root, list);
+  }
+
+  if (dischargesByNetwork.size === 0) {
+    report("no_discharge", "error", "The drawing has no discharge.");
+  }
+  for (const list of dischargesByNetwork.values()) {
+    for (const extra of list.slice(1)) {
+      report(
+        "multiple_discharges",
+        "error",
+        `${describe(extra)} drains the same network as ${describe(list[0])}. ` +
+          "Each system needs exactly one discharge.",
+        extra
+      );
+    }
+  }
+
+  const outletsInPaths = new Set<number>();
+  for (const path of rows) {
+    for (const row of path) {
+      if (row.item === "outlet") outletsInPaths.add(row.index);
+    }
+  }
+
+  for (const node of nodes) {
+    const deg = degree.get(node.id) ?? 0;
+    const type = node.type ?? "";
+
+    if (deg === 0) {
+      report(
+        "dangling_node",
+        "warning",
+        `${describe(node)} is not connected to any pipe.`,
+        node
+      );
+    } else if (deg === 1 && type !== "outlet" && type !== "discharge") {
+      report(
+        "dangling_node",
+        "warning",
+        `${describe(node)} is a dead end: only one pipe connects to it.`,
+        node
+      );
+    }
+
+    if (type === "outlet" && deg > 1) {
+      report(
+        "outlet_not_leaf",
+        "error",
+        `${describe(node)} has ${deg} pipes. An outlet must be the end of a branch.`,
+        node
+      );
+    }
+
+    if (deg >= 3 && type !== "outlet" && !JUNCTION_TYPES.has(type)) {
+      report(
+        "junction_not_tee",
+        "error",
+        `${describe(node)} joins ${deg} pipes but is not a tee or Y-valve.`,
+        node
+      );
+    }
+
+    // Every node but the discharge has one incoming pipe.
+    const legs = type === "discharge" ? deg : deg - 1;
+    if (legs > 2 && (JUNCTION_TYPES.has(type) || type === "discharge")) {
+      report(
+        "junction_too_many_legs",
+        "error",
+        `${describe(node)} splits into ${legs} legs. A tee or Y-valve takes two; ` +
+          "split the flow over several junctions.",
+        node
+      );
+    }
+
+    if (
+      type === "outlet" &&
+      typeof node.draw_index === "number" &&
+      !outletsInPaths.has(node.draw_index)
+    ) {
+      const drained = dischargesByNetwork.has(find(node.id));
+      report(
+        "outlet_without_path",
+        "error",
+        drained
+          ? `${describe(node)} is not in any calculated outlet path.`
+          : `${describe(node)} is not connected to a discharge.`,
+        node
+      );
+    }
+  }
+
+  const drawOrder = (issue: TopologyIssue) => {
+    const c = components.find(
+      (x) => x.component === issue.component && x.id === issue.id
+    );
+    return c?.draw_index ?? -1;
+  };
+  return issues.sort(
+    (a, b) => ISSUE_ORDER[a.severity] - ISSUE_ORDER[b.severity] || drawOrder(a) - drawOrder(b)
+  );
+}
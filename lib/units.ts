@@ -0,0 +1,125 @@
+export type UnitSystem = "si" | "us";
+
+/**
+ * Physical quantities shown to the user. The engine works in the SI unit of
+ * each one:
+ * - flow: L/s
+ * - diameter: nominal/product diameter, mm
+ * - internalDiameter: EquationRow.di, m
+ * - length: pipe lengths and levels, m
+ * - head: head loss, velocity head and water depths, m
+ * - pressure: delta_P, m of water column (gauge)
+ * - pressureSetting: pressure limits, balance tolerances and vapour
+ *   pressure, mbar
+ * - velocity: m/s
+ * - area: catchment areas, m²
+ * - intensity: rainfall intensity, L/(s·m²)
+ * - depth: water depth on the roof, mm
+ * - volume: water held in pipes, L
+ */
+export type Quantity =
+  | "flow"
+  | "diameter"
+  | "internalDiameter"
+  | "length"
+  | "head"
+  | "pressure"
+  | "pressureSetting"
+  | "velocity"
+  | "area"
+  | "intensity"
+  | "depth"
+  | "volume";
+
+export type UnitDef = {
+  symbol: string;
+  // Display value = SI value × factor.
+  factor: number;
+};
+
+const FT_PER_M = 1 / 0.3048;
+const IN_PER_MM = 1 / 25.4;
+
+export const UNIT_SYSTEMS: Record<
+  UnitSystem,
+  { name: string; units: Record<Quantity, UnitDef> }
+> = {
+  si: {
+    name: "SI (L/s, mm, m)",
+    units: {
+      flow: { symbol: "L/s", factor: 1 },
+      diameter: { symbol: "mm", factor: 1 },
+      internalDiameter: { symbol: "m", factor: 1 },
+      length: { symbol: "m", factor: 1 },
+      head: { symbol: "m", factor: 1 },
+      pressure: { symbol: "m", factor: 1 },
+      pressureSetting: { symbol: "mbar", factor: 1 },
+      velocity: { symbol: "m/s", factor: 1 },
+      area: { symbol: "m²", factor: 1 },
+      intensity: { symbol: "L/(s·m²)", factor: 1 },
+      depth: { symbol: "mm", factor: 1 },
+      volume: { symbol: "L", factor: 1 },
+    },
+  },
+  us: {
+    name: "US (gpm, in, ft, psi)",
+    units: {
+      // 1 L/s = 15.850 US gal/min.
+      flow: { symbol: "gpm", factor: 15.850323 },
+      diameter: { symbol: "in", factor: IN_PER_MM },
+      internalDiameter: { symbol: "in", factor: 1000 * IN_PER_MM },
+      length: { symbol: "ft", factor: FT_PER_M },
+      head: { symbol: "ft", factor: FT_PER_M },
+      // 1 m of water column = 1.4223 psi.
+      pressure: { symbol: "psi", factor: 1.422334 },
+      // 1 mbar = 0.0145038 psi.
+      pressureSetting: { symbol: "psi", factor: 0.0145038 },
+      velocity: { symbol: "ft/s", factor: FT_PER_M },
+      area: { symbol: "ft²", factor: FT_PER_M * FT_PER_M },
+      // 1 L/(s·m²) = 1 mm/s.
+      intensity: { symbol: "in/h", factor: 3600 * IN_PER_MM },
+      depth: { symbol: "in", factor: IN_PER_MM },
+      // 1 L = 0.26417 US gal.
+      volume: { symbol: "gal", factor: 0.264172 },
+    },
+  },
+};
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "si";
+
+export function unitSymbol(system: UnitSystem, quantity: Quantity): string {
+  return UNIT_SYSTEMS[system].units[quantity].symbol;
+}
+
+/** Convert an SI value to the display unit of `system`. */
+export function toDisplay(system: UnitSystem, quantity: Quantity, value: number): number {
+  return value * UNIT_SYSTEMS[system].units[quantity].factor;
+}
+
+/** Convert a value entered in the display unit of `system` back to SI. */
+export function fromDisplay(system: UnitSystem, quantity: Quantity, value: number): number {
+  return value / UNIT_SYSTEMS[system].units[quantity].factor;
+}
+
+/**
+ * Value for an editable input: converted and trimmed to 6 significant digits
+ * so converted SI values do not show float noise.
+ */
+export function toInputValue(
+  system: UnitSystem,
+  quantity: Quantity,
+  value: number | null | undefined
+): number | "" {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "";
+  return Number(toDisplay(system, quantity, value).toPrecision(6));
+}
+
+/** "1.23 gpm" style text for a value given in SI. */
+export function formatQuantity(
+  system: UnitSystem,
+  quantity: Quantity,
+  value: number,
+  digits = 3
+): string {
+  return `${toDisplay(system, quantity, value).toFixed(digits)} ${unitSymbol(system, quantity)}`;
+}
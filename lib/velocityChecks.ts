@@ -0,0 +1,81 @@
+import { type EquationRow } from "@/lib/calculations";
+import { GRAVITY } from "@/lib/fluid";
+
+export type VelocityRule = "min_velocity" | "max_downpipe_velocity" | "collector_full";
+
+export interface VelocityLimits {
+  // Lowest velocity in any pipe for self-cleansing and priming (m/s).
+  minVelocity: number;
+  // Highest velocity allowed in vertical pipes (m/s).
+  maxDownpipeVelocity: number;
+  // Lowest Froude number V/√(g·di) in horizontal pipes. Below this the flow
+  // cannot sweep air out of a collector, so it will not run full.
+  minCollectorFroude: number;
+}
+
+export const DEFAULT_VELOCITY_LIMITS: VelocityLimits = {
+  minVelocity: 1.0,
+  maxDownpipeVelocity: 6.0,
+  minCollectorFroude: 0.55,
+};
+
+/** Short labels for each rule, used by the UI and the Excel sheet. */
+export const VELOCITY_RULE_LABELS: Record<VelocityRule, string> = {
+  min_velocity: "Minimum velocity",
+  max_downpipe_velocity: "Maximum downpipe velocity",
+  collector_full: "Collector runs full",
+};
+
+/** A pipe row that breaks one of the velocity rules. */
+export type VelocityViolation = {
+  rule: VelocityRule;
+  index: number;
+  // Velocity (m/s) or, for collector_full, Froude number.
+  value: number;
+  threshold: number;
+};
+
+/**
+ * Check every pipe row against the velocity rules. A pipe carries the same
+ * flow in every outlet path it appears in, so each pipe is reported at most
+ * once per rule.
+ */
+export function checkVelocities(
+  groups: EquationRow[][],
+  limits: VelocityLimits = DEFAULT_VELOCITY_LIMITS
+): VelocityViolation[] {
+  const seen = new Set<string>();
+  const violations: VelocityViolation[] = [];
+
+  const report = (rule: VelocityRule, index: number, value: number, threshold: number) => {
+    const key = `${rule}:${index}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    violations.push({ rule, index, value, threshold });
+  };
+
+  for (const rows of groups) {
+    for (const row of rows) {
+      if (row.item !== "pipe") continue;
+      const V = row.V ?? 0;
+      const di = row.di ?? 0;
+
+      if (V < limits.minVelocity) {
+        report("min_velocity", row.index, V, limits.minVelocity);
+      }
+
+      if (row.vertical) {
+        if (V > limits.maxDownpipeVelocity) {
+          report("max_downpipe_velocity", row.index, V, limits.maxDownpipeVelocity);
+        }
+      } else if (di > 0) {
+        const froude = V / Math.sqrt(GRAVITY * di);
+        if (froude < limits.minCollectorFroude) {
+          report("collector_full", row.index, froude, limits.minCollectorFroude);
+        }
+      }
+    }
+  }
+
+  return violations.sort((a, b) => a.index - b.index);
+}
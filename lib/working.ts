@@ -0,0 +1,59 @@
+/**
+ * One step of a row's calculation: the formula used, the values put into it
+ * and what came out. All values are in the engine's units (SI, with heads
+ * and pressures in metres of water).
+ */
+export type WorkingStep = {
+  // EquationRow field the step sets, e.g. "ktotal".
+  quantity: string;
+  // Right-hand side of the equation, in the symbols of `inputs`.
+  formula: string;
+  inputs: Record<string, number>;
+  result: number;
+  // Which case of a piecewise rule applied, or where the value came from.
+  note?: string;
+};
+
+const formatNumber = (value: number, digits: number): string =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(digits))) : String(value);
+
+/** "a = 0.25, q = 0.5" style list of a step's inputs. */
+export function formatWorkingInputs(step: WorkingStep, digits = 6): string {
+  return Object.entries(step.inputs)
+    .map(([name, value]) => `${name} = ${formatNumber(value, digits)}`)
+    .join(", ");
+}
+
+/** "ktotal = f·L/di + kfit = 1.23" line for a step, without its inputs. */
+export function formatWorkingStep(step: WorkingStep, digits = 6): string {
+  return `${step.quantity} = ${step.formula} = ${formatNumber(step.result, digits)}`;
+}
+
+/** Spreadsheet header matching workingSheetRow(). */
+export const WORKING_SHEET_HEADER = [
+  "Path",
+  "Index",
+  "Item",
+  "Quantity",
+  "Formula",
+  "Inputs",
+  "Result",
+  "Note",
+];
+
+export function workingSheetRow(
+  path: number,
+  row: { index: number; item: string },
+  step: WorkingStep
+): (string | number)[] {
+  return [
+    path,
+    row.index,
+    row.item,
+    step.quantity,
+    `${step.quantity} = ${step.formula}`,
+    formatWorkingInputs(step),
+    step.result,
+    step.note ?? "",
+  ];
+}